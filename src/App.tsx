@@ -1,43 +1,236 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
-import { applyMosaic, processFrame, PALETTES, SHAPES, type ColorMode, type PixelShape } from './utils/mosaic'
-import { parseGif, encodeGif, type GifFrame } from './utils/gif'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { ALPHA_MODES, applyMosaic, BACKGROUNDS, computeGrid, PALETTES, renderMaskedAtSize, SHAPES, type AlphaMode, type BackgroundMode, type ColorMode, type MosaicGrid, type Palette, type PixelShape } from './utils/mosaic'
+import { DITHERS, type DitherMode } from './utils/dither'
+import { SAMPLINGS, type SamplingMode } from './utils/sampling'
+import { COLOR_METRICS, type ColorMetric } from './utils/color'
+import { parseGif, type GifFrame, type ParsedGif } from './utils/gif'
+import { processFramesInWorkers, processFilesInWorkers, encodeAnimationInWorker } from './utils/jobs'
+import { ANIMATION_FORMATS, type AnimationFormat } from './utils/animation'
+import { buildSpriteSheet, SPRITE_LAYOUTS, type SpriteLayout } from './utils/spriteSheet'
+import { GRID_LAYOUTS, type GridLayout } from './utils/tiling'
+import { DEFAULT_DELAY, initialTimeline, LOOP_MODES, playbackSequence, type LoopMode, type TimelineFrame } from './utils/timeline'
+import { TILE_MATCHES, tileFromFile, type PhotoTile, type TileMatch } from './utils/photoMosaic'
+import { MASK_COLOR, MASK_TOOLS, paintStroke, prepareMask, shapePath, type MaskTool } from './utils/mask'
+import { isAbortError } from './utils/workerPool'
+import { fromHex, importPalette, toHex } from './utils/paletteFormats'
+import { extractPalette, EXTRACT_METHODS, type ExtractMethod } from './utils/adaptive'
+import { adjustImage, NO_ADJUSTMENTS, type Adjustments } from './utils/adjustments'
+import { OUTLINE_MODES, type OutlineMode } from './utils/outline'
+import { loadCustomPalettes, saveCustomPalettes } from './utils/paletteStore'
+import { presetsFromJson, presetsToJson, settingsFromHash, settingsToHash, type MosaicSettings, type Preset } from './utils/settings'
+import { loadPresets, savePresets } from './utils/presetStore'
+import { downloadBlob, rawImageToPng } from './utils/download'
+import { BATCH_STATUS_LABELS, DEFAULT_NAME_PATTERN, formatBatchName, uniqueNames, type BatchItem, type BatchStatus } from './utils/batch'
+import { createZip } from './utils/zip'
+import { EXPORT_SCALES, EXPORT_SIZE_MODES, exportDimensions, type ExportSizeMode } from './utils/exportSize'
+import { renderGridToSvg } from './renderers/svg'
+import { renderGridToText, TEXT_FORMATS, type TextFormat } from './renderers/text'
+import { renderPatternPdf, renderPatternSvg } from './renderers/chart'
+import { renderPlanPdf } from './renderers/boards'
+import { buildPattern, FABRIC_COUNTS, type FabricCount } from './utils/crossStitch'
+import { BOARD_SIZES, BUILD_PALETTES, buildPlan, planToCsv, type BoardSize } from './utils/buildPlan'
+import type { CompareMode } from './utils/compare'
+import { inspectCell } from './utils/inspect'
+import PaletteEditor from './components/PaletteEditor'
+import GifTimeline from './components/GifTimeline'
+import CompareView from './components/CompareView'
 import './index.css'
 
 type FileType = 'image' | 'gif' | null
 
+const COMPARE_LABELS: Record<CompareMode, string> = {
+  slider: 'Image comparison: drag to compare original and pixelated versions',
+  side: 'Image comparison: original and pixelated side by side',
+  hold: 'Image comparison: press and hold to show the original',
+  onion: 'Image comparison: pixelated version over the original',
+}
+
 export default function App() {
   const [pixelSize, setPixelSize] = useState(8)
   const [levels, setLevels] = useState(4)
   const [colorMode, setColorMode] = useState<ColorMode>('grayscale')
   const [paletteIndex, setPaletteIndex] = useState(0)
+  const [customPalettes, setCustomPalettes] = useState<Palette[]>(loadCustomPalettes)
+  const [editingPalette, setEditingPalette] = useState(false)
+  const [colorMetric, setColorMetric] = useState<ColorMetric>('rgb')
+  const [adaptiveColors, setAdaptiveColors] = useState(16)
+  const [adaptiveMethod, setAdaptiveMethod] = useState<ExtractMethod>('median-cut')
+  const [adaptivePalette, setAdaptivePalette] = useState<Palette | null>(null)
   const [shape, setShape] = useState<PixelShape>('square')
+  const [layout, setLayout] = useState<GridLayout>('square')
+  const [tiles, setTiles] = useState<PhotoTile[]>([])
+  const [tileMatch, setTileMatch] = useState<TileMatch>('quad')
+  const [tileReuse, setTileReuse] = useState(0) // 0 = unlimited
+  const [tileTint, setTileTint] = useState(0) // %
+  const [adjustments, setAdjustments] = useState<Adjustments>(NO_ADJUSTMENTS)
+  const [outline, setOutline] = useState<OutlineMode>('none')
+  const [outlineThreshold, setOutlineThreshold] = useState(25) // percent
+  const [outlineSolid, setOutlineSolid] = useState(false) // false = darkened cell color
+  const [outlineColor, setOutlineColor] = useState<[number, number, number]>([0, 0, 0])
+  const [gridLines, setGridLines] = useState(0) // px, 0 = off
+  const [gridColor, setGridColor] = useState<[number, number, number]>([0, 0, 0])
+  const [presets, setPresets] = useState<Preset[]>(loadPresets)
+  const [presetIndex, setPresetIndex] = useState(-1) // last saved or loaded preset
+  const [presetName, setPresetName] = useState('')
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 })
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([])
+  const [batchPattern, setBatchPattern] = useState(DEFAULT_NAME_PATTERN)
+  const [batchRunning, setBatchRunning] = useState(false)
+  const batchAbortRef = useRef<AbortController | null>(null)
+  const batchIdRef = useRef(0)
+  const [sampling, setSampling] = useState<SamplingMode>('center')
+  const [dither, setDither] = useState<DitherMode>('none')
+  const [ditherStrength, setDitherStrength] = useState(100) // percent
+  const [background, setBackground] = useState<BackgroundMode>('auto')
+  const [backgroundColor, setBackgroundColor] = useState<[number, number, number]>([255, 255, 255])
+  const [alphaThreshold, setAlphaThreshold] = useState(50) // percent
+  const [alphaMode, setAlphaMode] = useState<AlphaMode>('skip')
+  const [textFormat, setTextFormat] = useState<TextFormat>('txt')
+  const [fabricCount, setFabricCount] = useState<FabricCount>(14)
+  const [boardSize, setBoardSize] = useState<BoardSize>(29)
+  const [animationFormat, setAnimationFormat] = useState<AnimationFormat>('gif')
+  const [spriteLayout, setSpriteLayout] = useState<SpriteLayout>('grid')
+  const [exportSizeMode, setExportSizeMode] = useState<ExportSizeMode>('source')
+  const [exportScale, setExportScale] = useState(4)
+  const [exportTarget, setExportTarget] = useState(512) // px, for target width/height
+  const [maskEnabled, setMaskEnabled] = useState(false)
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush')
+  const [brushSize, setBrushSize] = useState(40) // source px
+  const [maskInvert, setMaskInvert] = useState(false)
+  const [maskFeather, setMaskFeather] = useState(0) // source px
+  const [mosaicMask, setMosaicMask] = useState<Uint8Array | undefined>() // prepared from the mask canvas
   const [fileType, setFileType] = useState<FileType>(null)
   const [fileName, setFileName] = useState('')
   const [fileSize, setFileSize] = useState('')
   const [dragging, setDragging] = useState(false)
   const [processing, setProcessing] = useState(false)
+  const [exportProgress, setExportProgress] = useState<{ phase: 'render' | 'encode'; done: number; total: number; encoding: string } | null>(null)
+  const exportAbortRef = useRef<AbortController | null>(null)
+  const [encodedExport, setEncodedExport] = useState<{ blob: Blob; filename: string } | null>(null) // awaiting download
   const [dimensions, setDimensions] = useState({ w: 0, h: 0 })
 
   const imageRef = useRef<HTMLImageElement | null>(null)
   const [gifFrames, setGifFrames] = useState<GifFrame[]>([])
+  const [gifLoopCount, setGifLoopCount] = useState<number | null>(0) // kept from the source GIF on export
   const sourceCanvasRef = useRef<HTMLCanvasElement>(null)
   const resultCanvasRef = useRef<HTMLCanvasElement>(null)
   const compareCanvasRef = useRef<HTMLCanvasElement>(null)
+  const [gifThumbs, setGifThumbs] = useState<string[]>([]) // per decoded frame
+  const [timeline, setTimeline] = useState<TimelineFrame[]>([]) // edited frame sequence
+  const [timelinePos, setTimelinePos] = useState(0) // timeline frame on screen
+  const [gifSpeed, setGifSpeed] = useState(100) // percent
+  const [loopMode, setLoopMode] = useState<LoopMode>('forward')
   const [gifPlaying, setGifPlaying] = useState(false)
   const gifTimerRef = useRef<number | null>(null)
-  const gifFrameIndexRef = useRef(0)
+  const gifFrameIndexRef = useRef(0) // position in the playback sequence
+  const shownFrameRef = useRef(0) // GIF frame on the source/result canvases, or waiting for its render
+  const previewFramesRef = useRef<(ImageData | null)[]>([]) // worker-rendered frames for playback
   const [sliderPos, setSliderPos] = useState(0.5) // 0-1, comparison divider
   const isDraggingSlider = useRef(false)
+  const [compareMode, setCompareMode] = useState<CompareMode>('slider')
+  const [onionOpacity, setOnionOpacity] = useState(50) // percent
+  const [holding, setHolding] = useState(false) // 'hold' mode: original shown while pressed
+  const inspectGridRef = useRef<MosaicGrid | null>(null) // grid behind the inspector, dropped on every redraw
+  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null) // painted mask at source size, also the overlay
+  const maskDragRef = useRef<{ x0: number; y0: number; x: number; y: number } | null>(null)
+  // Undo history of settings snapshots; `current` is the last committed state
+  const historyRef = useRef<{ past: MosaicSettings[]; future: MosaicSettings[]; current: MosaicSettings | null }>({ past: [], future: [], current: null })
   const [toast, setToast] = useState<string | null>(null)
   const toastTimer = useRef<number | null>(null)
 
+  // Built-ins first, user palettes after; paletteIndex indexes this combined list
+  const palettes = useMemo(() => [...PALETTES, ...customPalettes], [customPalettes])
+
+  // A fresh, empty mask for every loaded image
+  useEffect(() => {
+    const canvas = document.createElement('canvas')
+    canvas.width = dimensions.w
+    canvas.height = dimensions.h
+    maskCanvasRef.current = canvas
+  }, [dimensions])
+
+  /** Prepare the painted mask for rendering; called after every finished stroke */
+  const updateMask = useCallback(() => {
+    const canvas = maskCanvasRef.current
+    if (!maskEnabled || !canvas || canvas.width === 0 || canvas.height === 0) {
+      setMosaicMask(undefined)
+      return
+    }
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+    setMosaicMask(prepareMask(data, canvas.width, canvas.height, maskInvert, maskFeather))
+  }, [maskEnabled, maskInvert, maskFeather])
+
+  // Re-prepare when the mask is toggled, inverted or feathered, and for the fresh canvas of a new image
+  useEffect(() => {
+    updateMask()
+  }, [updateMask, dimensions])
+
   const getMosaicOpts = useCallback(() => ({
     pixelSize,
+    layout,
+    adjustments,
+    colorMode,
+    levels,
+    shape,
+    palette: colorMode === 'palette' ? palettes[paletteIndex]
+      : colorMode === 'adaptive' ? adaptivePalette ?? undefined
+      : undefined,
+    colorMetric,
+    sampling,
+    dither,
+    ditherStrength: ditherStrength / 100,
+    background,
+    backgroundColor,
+    alphaThreshold: alphaThreshold / 100,
+    alphaMode,
+    mask: mosaicMask,
+    // Tiles are cloned into every worker job, so they only travel when used
+    tiles: shape === 'photo' ? tiles : undefined,
+    tileMatch,
+    tileReuse,
+    tileTint: tileTint / 100,
+    outline,
+    outlineThreshold: outlineThreshold / 100,
+    outlineColor: outlineSolid ? outlineColor : null,
+    gridLines,
+    gridColor,
+  }), [pixelSize, layout, colorMode, levels, palettes, paletteIndex, adaptivePalette, colorMetric, shape, sampling, dither, ditherStrength, background, backgroundColor, alphaThreshold, alphaMode, adjustments, mosaicMask, tiles, tileMatch, tileReuse, tileTint, outline, outlineThreshold, outlineSolid, outlineColor, gridLines, gridColor])
+
+  // The look as one snapshot for presets, undo and the URL hash; built-in palettes go by name
+  const settings = useMemo((): MosaicSettings => ({
+    pixelSize,
+    layout,
+    adjustments,
     colorMode,
     levels,
     shape,
-    palette: colorMode === 'palette' ? PALETTES[paletteIndex] : undefined,
-  }), [pixelSize, colorMode, levels, paletteIndex, shape])
+    palette: colorMode !== 'palette' ? undefined
+      : paletteIndex < PALETTES.length ? PALETTES[paletteIndex].name
+      : palettes[paletteIndex],
+    colorMetric,
+    adaptiveColors,
+    adaptiveMethod,
+    sampling,
+    dither,
+    ditherStrength: ditherStrength / 100,
+    background,
+    backgroundColor,
+    alphaThreshold: alphaThreshold / 100,
+    alphaMode,
+    tileMatch,
+    tileReuse,
+    tileTint: tileTint / 100,
+    outline,
+    outlineThreshold: outlineThreshold / 100,
+    outlineColor: outlineSolid ? outlineColor : null,
+    gridLines,
+    gridColor,
+  }), [pixelSize, layout, colorMode, levels, palettes, paletteIndex, colorMetric, adaptiveColors, adaptiveMethod, shape, sampling, dither, ditherStrength, background, backgroundColor, alphaThreshold, alphaMode, adjustments, tileMatch, tileReuse, tileTint, outline, outlineThreshold, outlineSolid, outlineColor, gridLines, gridColor])
+
+  const exportSize = useMemo(
+    () => ({ mode: exportSizeMode, scale: exportScale, target: exportTarget }),
+    [exportSizeMode, exportScale, exportTarget]
+  )
 
   const showToast = useCallback((msg: string) => {
     if (toastTimer.current) clearTimeout(toastTimer.current)
@@ -45,16 +238,265 @@ export default function App() {
     toastTimer.current = window.setTimeout(() => setToast(null), 2500)
   }, [])
 
+  useEffect(() => {
+    saveCustomPalettes(customPalettes)
+  }, [customPalettes])
+
+  const addCustomPalette = useCallback((palette: Palette) => {
+    setCustomPalettes(ps => [...ps, palette])
+    setPaletteIndex(PALETTES.length + customPalettes.length)
+  }, [customPalettes.length])
+
+  const handleEditPalette = () => {
+    if (paletteIndex < PALETTES.length) {
+      // Built-ins are read-only: edit a copy instead
+      const base = PALETTES[paletteIndex]
+      addCustomPalette({
+        name: `${base.name} 副本`,
+        colors: base.colors.map(c => [...c]),
+        // Thread and part codes keep charts and build plans made from the copy orderable
+        codes: base.codes && [...base.codes],
+        labels: base.labels && [...base.labels],
+      })
+    }
+    setEditingPalette(true)
+  }
+
+  const handleNewPalette = () => {
+    addCustomPalette({ name: `自定义 ${customPalettes.length + 1}`, colors: [[0, 0, 0], [255, 255, 255]] })
+    setEditingPalette(true)
+  }
+
+  const handleImportPalette = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      addCustomPalette(await importPalette(file))
+      showToast('✅ 调色板导入成功')
+    } catch (err) {
+      showToast(`❌ ${err instanceof Error ? err.message : '调色板导入失败'}`)
+    }
+  }
+
+  const handleAddTiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(f => f.type.startsWith('image/'))
+    e.target.value = ''
+    if (!files.length) return
+    const added: PhotoTile[] = []
+    for (const file of files) {
+      try {
+        added.push(await tileFromFile(file))
+      } catch {
+        // Undecodable files in a picked folder are skipped
+      }
+    }
+    setTiles(ts => [...ts, ...added])
+    showToast(added.length ? `✅ 已添加 ${added.length} 张图块` : '❌ 没有可用的图片')
+  }
+
+  const updateCustomPalette = (palette: Palette) => {
+    const idx = paletteIndex - PALETTES.length
+    setCustomPalettes(ps => ps.map((p, i) => (i === idx ? palette : p)))
+  }
+
+  const deleteCustomPalette = () => {
+    const idx = paletteIndex - PALETTES.length
+    setCustomPalettes(ps => ps.filter((_, i) => i !== idx))
+    setPaletteIndex(0)
+    setEditingPalette(false)
+  }
+
+  /**
+   * Select a settings palette: built-ins by name, custom palettes by name and colors. Unknown ones
+   * (from a link or an imported preset) are added; when `restore` is set (undo/redo) a custom
+   * palette of the same name gets its earlier colors back instead.
+   */
+  const selectPalette = useCallback((palette: string | Palette, restore: boolean) => {
+    if (typeof palette === 'string') {
+      const i = PALETTES.findIndex(p => p.name === palette)
+      if (i >= 0) setPaletteIndex(i)
+      return
+    }
+    const colors = JSON.stringify(palette.colors)
+    const same = customPalettes.findIndex(p => p.name === palette.name && JSON.stringify(p.colors) === colors)
+    const named = customPalettes.findIndex(p => p.name === palette.name)
+    if (same >= 0) {
+      setPaletteIndex(PALETTES.length + same)
+    } else if (restore && named >= 0) {
+      setCustomPalettes(ps => ps.map((p, i) => (i === named ? palette : p)))
+      setPaletteIndex(PALETTES.length + named)
+    } else {
+      addCustomPalette({ ...palette, colors: palette.colors.map(c => [...c]) })
+    }
+  }, [customPalettes, addCustomPalette])
+
+  const applySettings = useCallback((s: MosaicSettings, restore = false) => {
+    setPixelSize(s.pixelSize)
+    setLayout(s.layout)
+    setAdjustments(s.adjustments)
+    setColorMode(s.colorMode)
+    setLevels(s.levels)
+    setShape(s.shape)
+    if (s.palette) selectPalette(s.palette, restore)
+    setColorMetric(s.colorMetric)
+    setAdaptiveColors(s.adaptiveColors)
+    setAdaptiveMethod(s.adaptiveMethod)
+    setSampling(s.sampling)
+    setDither(s.dither)
+    setDitherStrength(Math.round(s.ditherStrength * 100))
+    setBackground(s.background)
+    setBackgroundColor(s.backgroundColor)
+    setAlphaThreshold(Math.round(s.alphaThreshold * 100))
+    setAlphaMode(s.alphaMode)
+    setTileMatch(s.tileMatch)
+    setTileReuse(s.tileReuse)
+    setTileTint(Math.round(s.tileTint * 100))
+    setOutline(s.outline)
+    setOutlineThreshold(Math.round(s.outlineThreshold * 100))
+    setOutlineSolid(s.outlineColor !== null)
+    if (s.outlineColor) setOutlineColor(s.outlineColor)
+    setGridLines(s.gridLines)
+    setGridColor(s.gridColor)
+  }, [selectPalette])
+
+  // Record settings as an undo step and mirror them into the URL hash
+  const commitSettings = useCallback((s: MosaicSettings) => {
+    const history = historyRef.current
+    if (history.current && JSON.stringify(history.current) === JSON.stringify(s)) return
+    if (history.current) {
+      history.past = [...history.past.slice(-99), history.current]
+      history.future = []
+    }
+    history.current = s
+    setHistorySize({ undo: history.past.length, redo: 0 })
+    window.history.replaceState(null, '', settingsToHash(s))
+  }, [])
+
+  // Settings that stay put for a moment become one step, so a slider drag undoes in one go
+  useEffect(() => {
+    const timer = window.setTimeout(() => commitSettings(settings), 400)
+    return () => clearTimeout(timer)
+  }, [settings, commitSettings])
+
+  const stepHistory = useCallback((direction: 'undo' | 'redo') => {
+    commitSettings(settings)
+    const history = historyRef.current
+    const from = direction === 'undo' ? history.past : history.future
+    const to = direction === 'undo' ? history.future : history.past
+    const target = from.pop()
+    if (!target || !history.current) return
+    to.push(history.current)
+    history.current = target
+    setHistorySize({ undo: history.past.length, redo: history.future.length })
+    window.history.replaceState(null, '', settingsToHash(target))
+    applySettings(target, true)
+  }, [settings, commitSettings, applySettings])
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase()
+      if (!(e.ctrlKey || e.metaKey) || (key !== 'z' && key !== 'y')) return
+      if (e.target instanceof HTMLElement && e.target.closest('input:not([type]), input[type="text"], input[type="number"], textarea')) return
+      e.preventDefault()
+      stepHistory(key === 'y' || e.shiftKey ? 'redo' : 'undo')
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [stepHistory])
+
+  // Settings from a shared link, on load and when another link is pasted into this tab
+  const applySettingsRef = useRef(applySettings)
+  useEffect(() => {
+    applySettingsRef.current = applySettings
+  }, [applySettings])
+  useEffect(() => {
+    const fromHash = () => {
+      const s = settingsFromHash(window.location.hash)
+      if (s) applySettingsRef.current(s)
+    }
+    fromHash()
+    window.addEventListener('hashchange', fromHash)
+    return () => window.removeEventListener('hashchange', fromHash)
+  }, [])
+
+  useEffect(() => {
+    savePresets(presets)
+  }, [presets])
+
+  const handleSavePreset = () => {
+    const name = presetName.trim() || `预设 ${presets.length + 1}`
+    const existing = presets.findIndex(p => p.name === name)
+    // Saving under an existing name overwrites that preset
+    setPresets(ps => (existing >= 0 ? ps.map((p, i) => (i === existing ? { name, settings } : p)) : [...ps, { name, settings }]))
+    setPresetIndex(existing >= 0 ? existing : presets.length)
+    setPresetName('')
+    showToast(`✅ 已保存预设「${name}」`)
+  }
+
+  const handleLoadPreset = (i: number) => {
+    applySettings(presets[i].settings)
+    setPresetIndex(i)
+  }
+
+  const handleDeletePreset = () => {
+    setPresets(ps => ps.filter((_, i) => i !== presetIndex))
+    setPresetIndex(-1)
+  }
+
+  const handleExportPresets = () => {
+    downloadBlob(new Blob([presetsToJson(presets)], { type: 'application/json' }), 'mosaic-presets.json')
+  }
+
+  const handleImportPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const imported = presetsFromJson(await file.text())
+      // Imported presets replace local ones of the same name
+      setPresets(ps => [...ps.filter(p => !imported.some(q => q.name === p.name)), ...imported])
+      setPresetIndex(-1)
+      showToast(`✅ 已导入 ${imported.length} 个预设`)
+    } catch (err) {
+      showToast(`❌ ${err instanceof Error ? err.message : '预设导入失败'}`)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    commitSettings(settings)
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      showToast('🔗 链接已复制，打开即可还原当前设置')
+    } catch {
+      showToast('❌ 复制失败，浏览器可能不支持')
+    }
+  }
+
   const handleFile = useCallback(async (file: File) => {
     const type = file.type
+    // Parsed before any state changes, so a truncated or corrupt GIF leaves the current image in place
+    let gif: ParsedGif | null = null
+    if (type === 'image/gif') {
+      try {
+        gif = parseGif(await file.arrayBuffer())
+      } catch {
+        showToast('❌ 无法读取该文件，GIF 可能已损坏')
+        return
+      }
+    }
     setFileName(file.name)
     setFileSize(formatSize(file.size))
 
-    if (type === 'image/gif') {
+    if (gif) {
       setFileType('gif')
-      const buffer = await file.arrayBuffer()
-      const frames = parseGif(buffer)
+      const { frames, loopCount } = gif
+      shownFrameRef.current = 0
       setGifFrames(frames)
+      setTimeline(initialTimeline(frames))
+      setTimelinePos(0)
+      setGifLoopCount(loopCount)
       if (frames.length > 0) {
         const canvas = sourceCanvasRef.current!
         canvas.width = frames[0].imageData.width
@@ -80,33 +522,119 @@ export default function App() {
     } else {
       alert('请上传图片或 GIF 文件')
     }
-  }, [])
+  }, [showToast])
+
+  // Timeline thumbnails are built in the background, so a long GIF opens without waiting for them
+  useEffect(() => {
+    if (gifFrames.length === 0) return
+    let cancelled = false
+    const urls: string[] = []
+    const build = async () => {
+      for (const frame of gifFrames) {
+        const url = URL.createObjectURL(await frameThumbnail(frame.imageData))
+        if (cancelled) {
+          URL.revokeObjectURL(url)
+          return
+        }
+        urls.push(url)
+        // Shown in batches rather than re-rendering the strip for every frame
+        if (urls.length % 16 === 0 || urls.length === gifFrames.length) setGifThumbs(urls.slice())
+      }
+    }
+    build().catch(() => {
+      // A missing thumbnail only leaves its slot in the strip blank
+    })
+    return () => {
+      cancelled = true
+      urls.forEach(url => URL.revokeObjectURL(url))
+      setGifThumbs([])
+    }
+  }, [gifFrames])
+
+  // Extract the adaptive palette from the still image or from all GIF frames together
+  useEffect(() => {
+    if (colorMode !== 'adaptive') return
+    let sources: ImageData[] = []
+    if (fileType === 'gif') {
+      sources = gifFrames.map(f => f.imageData)
+    } else if (fileType === 'image' && imageRef.current) {
+      const src = sourceCanvasRef.current!
+      sources = [src.getContext('2d')!.getImageData(0, 0, src.width, src.height)]
+    }
+    if (sources.length === 0) return
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    // Extract from the adjusted pixels, the colors the mosaic actually samples
+    const adjusted = sources.map(src => adjustImage(src, adjustments))
+    setAdaptivePalette(extractPalette(adjusted, adaptiveColors, adaptiveMethod, `${baseName} 自适应`))
+  }, [colorMode, fileType, fileName, gifFrames, dimensions, adaptiveColors, adaptiveMethod, adjustments])
+
+  const adjust = (patch: Partial<Adjustments>) => setAdjustments(a => ({ ...a, ...patch }))
+
+  const handleSaveAdaptivePalette = () => {
+    if (!adaptivePalette) return
+    addCustomPalette({ ...adaptivePalette, colors: adaptivePalette.colors.map(c => [...c]) })
+    showToast('✅ 已保存到调色板')
+  }
 
   // Re-apply mosaic
   useEffect(() => {
     const opts = getMosaicOpts()
     if (fileType === 'image' && imageRef.current) {
       applyMosaic(sourceCanvasRef.current!, resultCanvasRef.current!, opts)
-    } else if (fileType === 'gif' && gifFrames.length > 0) {
-      const tgt = resultCanvasRef.current!
-      const frame = gifFrames[0]
-      tgt.width = frame.imageData.width
-      tgt.height = frame.imageData.height
-      tgt.getContext('2d')!.putImageData(processFrame(frame.imageData, opts), 0, 0)
     }
-  }, [fileType, pixelSize, levels, colorMode, paletteIndex, shape, gifFrames, getMosaicOpts])
+  }, [fileType, pixelSize, layout, levels, colorMode, palettes, paletteIndex, adaptivePalette, colorMetric, shape, sampling, dither, ditherStrength, background, backgroundColor, alphaThreshold, alphaMode, adjustments, mosaicMask, tiles, tileMatch, tileReuse, tileTint, outline, outlineThreshold, outlineSolid, outlineColor, gridLines, gridColor, gifFrames, getMosaicOpts])
 
-  // Draw comparison canvas (left = original, right = pixel)
+  // Draw the comparison canvas in the chosen compare mode
   const drawComparison = useCallback(() => {
     const src = sourceCanvasRef.current
     const res = resultCanvasRef.current
     const cmp = compareCanvasRef.current
     if (!src || !res || !cmp || !fileType) return
     if (src.width === 0 || src.height === 0) return
+    inspectGridRef.current = null
 
-    cmp.width = src.width
+    cmp.width = src.width * (!maskEnabled && compareMode === 'side' ? 2 : 1)
     cmp.height = src.height
     const ctx = cmp.getContext('2d')!
+
+    // Mask editing: the masked result with the painted mask tinted on top
+    if (maskEnabled) {
+      ctx.drawImage(res, 0, 0)
+      if (maskCanvasRef.current) {
+        ctx.globalAlpha = 0.35
+        ctx.drawImage(maskCanvasRef.current, 0, 0)
+        ctx.globalAlpha = 1
+      }
+      const drag = maskDragRef.current
+      if (drag && (maskTool === 'rect' || maskTool === 'ellipse')) {
+        ctx.setLineDash([6, 4])
+        ctx.strokeStyle = '#fff'
+        ctx.lineWidth = 2
+        shapePath(ctx, maskTool, drag.x0, drag.y0, drag.x, drag.y)
+        ctx.stroke()
+      }
+      return
+    }
+
+    if (compareMode === 'side') {
+      ctx.drawImage(src, 0, 0)
+      ctx.drawImage(res, src.width, 0)
+      ctx.fillStyle = '#fff'
+      ctx.fillRect(src.width - 1, 0, 2, src.height)
+      return
+    }
+    if (compareMode === 'hold') {
+      ctx.drawImage(holding ? src : res, 0, 0)
+      return
+    }
+    if (compareMode === 'onion') {
+      ctx.drawImage(src, 0, 0)
+      ctx.globalAlpha = onionOpacity / 100
+      ctx.drawImage(res, 0, 0)
+      ctx.globalAlpha = 1
+      return
+    }
+
     const splitX = Math.round(src.width * sliderPos)
 
     // Left side: original
@@ -133,60 +661,217 @@ export default function App() {
     ctx.textAlign = 'center'
     ctx.textBaseline = 'middle'
     ctx.fillText('⇔', splitX, cy)
-  }, [sliderPos, fileType])
+  }, [sliderPos, compareMode, holding, onionOpacity, fileType, maskEnabled, maskTool])
 
   // Redraw comparison whenever source/result/slider changes
   useEffect(() => {
     drawComparison()
-  }, [drawComparison, pixelSize, levels, colorMode, paletteIndex, shape, dimensions])
+  }, [drawComparison, pixelSize, layout, levels, colorMode, palettes, paletteIndex, adaptivePalette, colorMetric, shape, sampling, dither, ditherStrength, background, backgroundColor, alphaThreshold, alphaMode, adjustments, mosaicMask, tiles, tileMatch, tileReuse, tileTint, outline, outlineThreshold, outlineSolid, outlineColor, gridLines, gridColor, dimensions])
+
+  // Playback and worker callbacks outlive renders; always redraw with the latest slider position
+  const drawComparisonRef = useRef(drawComparison)
+  drawComparisonRef.current = drawComparison
+
+  /** Pointer position in source pixels */
+  const sourcePoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return [(e.clientX - rect.left) * canvas.width / rect.width, (e.clientY - rect.top) * canvas.height / rect.height]
+  }
+
+  const handleMaskPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const mask = maskCanvasRef.current
+    // Other buttons pan the zoomed view
+    if (!maskEnabled || !mask || e.button !== 0) return
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const [x, y] = sourcePoint(e)
+    maskDragRef.current = { x0: x, y0: y, x, y }
+    if (maskTool === 'brush' || maskTool === 'eraser') paintStroke(mask.getContext('2d')!, maskTool, x, y, x, y, brushSize)
+    drawComparison()
+  }
+
+  const handleMaskPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = maskDragRef.current
+    const mask = maskCanvasRef.current
+    if (!drag || !mask) return
+    const [x, y] = sourcePoint(e)
+    if (maskTool === 'brush' || maskTool === 'eraser') paintStroke(mask.getContext('2d')!, maskTool, drag.x, drag.y, x, y, brushSize)
+    drag.x = x
+    drag.y = y
+    drawComparison()
+  }
+
+  // The mosaic re-renders once per finished stroke or shape, not on every move
+  const handleMaskPointerUp = () => {
+    const drag = maskDragRef.current
+    const mask = maskCanvasRef.current
+    if (!drag || !mask) return
+    maskDragRef.current = null
+    if (maskTool === 'rect' || maskTool === 'ellipse') {
+      const ctx = mask.getContext('2d')!
+      ctx.fillStyle = MASK_COLOR
+      shapePath(ctx, maskTool, drag.x0, drag.y0, drag.x, drag.y)
+      ctx.fill()
+    }
+    updateMask()
+  }
+
+  /** Divider position under the pointer, 0-1 */
+  const sliderPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+  }
+
+  // The slider takes any drag while the view is fitted; zoomed in, only drags that grab the divider
+  const handleComparePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (maskEnabled) return handleMaskPointerDown(e)
+    if (e.button !== 0) return
+    if (compareMode === 'hold') {
+      // The same drag may also pan, so the event goes on to the view
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setHolding(true)
+      return
+    }
+    if (compareMode !== 'slider') return
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    const zoomed = rect.width > canvas.clientWidth + 1
+    if (zoomed && Math.abs(e.clientX - (rect.left + sliderPos * rect.width)) > 20) return
+    e.stopPropagation()
+    canvas.setPointerCapture(e.pointerId)
+    isDraggingSlider.current = true
+    setSliderPos(sliderPoint(e))
+  }
+
+  const handleComparePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (maskEnabled) return handleMaskPointerMove(e)
+    if (isDraggingSlider.current) setSliderPos(sliderPoint(e))
+  }
+
+  const handleComparePointerUp = () => {
+    if (maskEnabled) return handleMaskPointerUp()
+    isDraggingSlider.current = false
+    setHolding(false)
+  }
+
+  // A pinch takes over from whatever the first finger started
+  const handleCompareGesture = () => {
+    isDraggingSlider.current = false
+    setHolding(false)
+    handleMaskPointerUp()
+  }
+
+  const handleClearMask = () => {
+    const mask = maskCanvasRef.current
+    if (!mask) return
+    mask.getContext('2d')!.clearRect(0, 0, mask.width, mask.height)
+    updateMask()
+  }
+
+  /** Put GIF frame `idx` and its rendered version on the canvases, if the render is ready */
+  const showGifFrame = useCallback((idx: number): boolean => {
+    const frame = gifFrames[idx]
+    const processed = previewFramesRef.current[idx]
+    if (!frame) return false
+    // A frame still rendering is shown by the preview effect when its render arrives
+    shownFrameRef.current = idx
+    if (!processed) return false
+
+    sourceCanvasRef.current!.getContext('2d')!.putImageData(frame.imageData, 0, 0)
+    const tgt = resultCanvasRef.current!
+    if (tgt.width !== processed.width || tgt.height !== processed.height) {
+      tgt.width = processed.width
+      tgt.height = processed.height
+    }
+    tgt.getContext('2d')!.putImageData(processed, 0, 0)
+    drawComparisonRef.current()
+    return true
+  }, [gifFrames])
 
-  // GIF animation playback
+  // Render all GIF frames in the worker pool; playback picks them up as they arrive
+  useEffect(() => {
+    if (fileType !== 'gif' || gifFrames.length === 0) return
+    const controller = new AbortController()
+    previewFramesRef.current = gifFrames.map(() => null)
+
+    processFramesInWorkers(gifFrames.map(f => f.imageData), getMosaicOpts(), {
+      signal: controller.signal,
+      onFrame: (i, result) => {
+        previewFramesRef.current[i] = result
+        // Update the frame on screen immediately so paused previews reflect new settings
+        if (i === shownFrameRef.current) showGifFrame(i)
+      },
+    }).catch(err => {
+      if (!isAbortError(err)) showToast('❌ 预览渲染失败')
+    })
+
+    return () => controller.abort()
+  }, [fileType, gifFrames, getMosaicOpts, showGifFrame, showToast])
+
+  // Frames in playback order with the timeline edits, speed and loop mode applied
+  const sequence = useMemo(
+    () => playbackSequence(timeline, gifSpeed / 100, loopMode),
+    [timeline, gifSpeed, loopMode]
+  )
+  // Playback reads the latest sequence, so edits apply without restarting it
+  const sequenceRef = useRef(sequence)
+  const timelinePosRef = useRef(timelinePos)
+  useEffect(() => {
+    sequenceRef.current = sequence
+    timelinePosRef.current = timelinePos
+  }, [sequence, timelinePos])
+
+  // GIF animation playback; pausing keeps the current frame
   const stopGifPlayback = useCallback(() => {
     if (gifTimerRef.current !== null) {
       clearTimeout(gifTimerRef.current)
       gifTimerRef.current = null
     }
     setGifPlaying(false)
-    gifFrameIndexRef.current = 0
   }, [])
 
   const startGifPlayback = useCallback(() => {
-    if (gifFrames.length < 2) return
+    if (sequenceRef.current.length < 2) return
     setGifPlaying(true)
-    gifFrameIndexRef.current = 0
+    // Resume from the frame on screen
+    gifFrameIndexRef.current = Math.max(0, sequenceRef.current.findIndex(f => f.index === timelinePosRef.current))
 
     const playFrame = () => {
-      const idx = gifFrameIndexRef.current
-      const frame = gifFrames[idx]
-      if (!frame) return
-
-      const opts = getMosaicOpts()
+      const seq = sequenceRef.current
+      if (seq.length === 0) return
+      const idx = gifFrameIndexRef.current % seq.length
+      const frame = seq[idx]
 
-      // Draw original frame
-      const srcCanvas = sourceCanvasRef.current!
-      srcCanvas.getContext('2d')!.putImageData(frame.imageData, 0, 0)
-
-      // Draw processed frame
-      const tgtCanvas = resultCanvasRef.current!
-      tgtCanvas.getContext('2d')!.putImageData(processFrame(frame.imageData, opts), 0, 0)
-
-      // Update comparison
-      drawComparison()
+      if (!showGifFrame(frame.source)) {
+        // Still rendering in a worker — hold the current frame and check back shortly
+        gifTimerRef.current = window.setTimeout(playFrame, 30)
+        return
+      }
+      setTimelinePos(frame.index)
 
       // Schedule next frame
-      gifFrameIndexRef.current = (idx + 1) % gifFrames.length
-      gifTimerRef.current = window.setTimeout(playFrame, frame.delay || 100)
+      gifFrameIndexRef.current = (idx + 1) % seq.length
+      gifTimerRef.current = window.setTimeout(playFrame, frame.delay || DEFAULT_DELAY)
     }
 
     playFrame()
-  }, [gifFrames, getMosaicOpts])
+  }, [showGifFrame])
 
-  // Stop playback on settings change or reset
+  // While paused, show the timeline frame picked by the scrubber (or left after an edit)
   useEffect(() => {
-    if (gifPlaying) {
-      stopGifPlayback()
+    if (timelinePos > 0 && timelinePos >= timeline.length) {
+      setTimelinePos(timeline.length - 1)
+      return
     }
-  }, [pixelSize, levels, colorMode, paletteIndex, shape])
+    const frame = timeline[timelinePos]
+    if (!gifPlaying && frame) showGifFrame(frame.source)
+  }, [timeline, timelinePos, gifPlaying, showGifFrame])
+
+  const seekGifFrame = useCallback((index: number) => {
+    stopGifPlayback()
+    setTimelinePos(index)
+  }, [stopGifPlayback])
 
   // Auto-start playback when GIF is loaded
   useEffect(() => {
@@ -196,10 +881,87 @@ export default function App() {
     return () => stopGifPlayback()
   }, [gifFrames, fileType])
 
+  // Stop when edits leave fewer than two frames to play
+  useEffect(() => {
+    if (sequence.length < 2) stopGifPlayback()
+  }, [sequence, stopGifPlayback])
+
+  /** Grid of the frame currently on the source canvas (the still image, or the shown GIF frame) */
+  const currentGrid = useCallback(() => {
+    const src = sourceCanvasRef.current!
+    return computeGrid(src.getContext('2d')!.getImageData(0, 0, src.width, src.height), getMosaicOpts())
+  }, [getMosaicOpts])
+
+  /** Inspector lookup on the shown frame; the grid is computed on the first hover after a redraw */
+  const inspectAt = useCallback((x: number, y: number) => {
+    inspectGridRef.current ??= currentGrid()
+    return inspectCell(inspectGridRef.current, x, y)
+  }, [currentGrid])
+
+  /**
+   * Render the edited GIF sequence with the current settings and hand it to `finish`, with
+   * progress, cancel and error toasts. `encoding` labels the second progress phase.
+   */
+  const runFrameExport = useCallback(async (
+    encoding: string,
+    finish: (frames: { imageData: ImageData; delay: number }[], signal: AbortSignal) => Promise<void>
+  ) => {
+    const controller = new AbortController()
+    exportAbortRef.current = controller
+    // Each decoded frame still in the timeline renders once, however often it is played
+    const sources = [...new Set(sequence.map(f => f.source))]
+    const total = sources.length
+    setProcessing(true)
+    setExportProgress({ phase: 'render', done: 0, total, encoding })
+    try {
+      // Reuse the preview renders when they are all in — they were made with the current settings
+      // at source size
+      const preview = previewFramesRef.current
+      const reuse = exportSize.mode === 'source' && sources.every(s => preview[s])
+      const rendered = new Map<number, ImageData>()
+      if (reuse) {
+        sources.forEach(s => rendered.set(s, preview[s]!))
+      } else {
+        const images = await processFramesInWorkers(sources.map(s => gifFrames[s].imageData), getMosaicOpts(), {
+          signal: controller.signal,
+          size: exportSize,
+          onFrame: (_i, _result, done) => setExportProgress({ phase: 'render', done, total, encoding }),
+        })
+        sources.forEach((s, i) => rendered.set(s, images[i]))
+      }
+      setExportProgress({ phase: 'encode', done: total, total, encoding })
+      // Encoding transfers the buffers away, so preview renders and repeated frames are copies
+      const owned = new Set<number>()
+      const frames = sequence.map(({ source, delay }) => {
+        const image = rendered.get(source)!
+        const own = !reuse && !owned.has(source)
+        owned.add(source)
+        return { imageData: own ? image : new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), delay }
+      })
+      await finish(frames, controller.signal)
+    } catch (err) {
+      showToast(isAbortError(err) ? '已取消导出' : `❌ ${encoding} 导出失败`)
+    } finally {
+      exportAbortRef.current = null
+      setExportProgress(null)
+      setProcessing(false)
+    }
+  }, [gifFrames, sequence, getMosaicOpts, exportSize, showToast])
+
   const handleExport = useCallback(async () => {
     const baseName = fileName.replace(/\.[^.]+$/, '')
-    const opts = getMosaicOpts()
-    if (fileType === 'image') {
+    if (fileType === 'image' && exportSize.mode !== 'source') {
+      try {
+        const src = sourceCanvasRef.current!
+        const original = src.getContext('2d')!.getImageData(0, 0, src.width, src.height)
+        const opts = getMosaicOpts()
+        const blob = await rawImageToPng(renderMaskedAtSize(computeGrid(original, opts), original, opts, exportSize))
+        downloadBlob(blob, `mosaic-${baseName}.png`)
+        showToast('✅ PNG 导出成功')
+      } catch {
+        showToast('❌ PNG 导出失败')
+      }
+    } else if (fileType === 'image') {
       resultCanvasRef.current!.toBlob((blob) => {
         if (blob) {
           downloadBlob(blob, `mosaic-${baseName}.png`)
@@ -207,21 +969,107 @@ export default function App() {
         }
       }, 'image/png')
     } else if (fileType === 'gif' && gifFrames.length > 0) {
-      setProcessing(true)
-      try {
-        const { width, height } = gifFrames[0].imageData
-        const processed = gifFrames.map(f => ({
-          imageData: processFrame(f.imageData, opts),
-          delay: f.delay,
-        }))
-        const blob = await encodeGif(processed, width, height)
-        downloadBlob(blob, `mosaic-${baseName}.gif`)
-        showToast('✅ GIF 导出成功')
-      } finally {
-        setProcessing(false)
+      const format = ANIMATION_FORMATS.find(f => f.id === animationFormat)!
+      await runFrameExport(format.name, async (frames, signal) => {
+        const { width, height } = frames[0].imageData
+        // Palette modes pass their palette on, so GIFs keep exactly its colors
+        const blob = await encodeAnimationInWorker(format.id, frames, width, height, gifLoopCount, getMosaicOpts().palette, signal)
+        // Held back so the size can be checked (or another format tried) before downloading
+        setEncodedExport({ blob, filename: `mosaic-${baseName}.${format.ext}` })
+        showToast(`✅ ${format.name} 已生成，共 ${formatSize(blob.size)}`)
+      })
+    }
+  }, [fileType, fileName, gifFrames, gifLoopCount, animationFormat, exportSize, getMosaicOpts, runFrameExport, showToast])
+
+  const handleExportSpriteSheet = useCallback(async () => {
+    if (fileType !== 'gif' || gifFrames.length === 0) return
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    await runFrameExport('精灵图', async frames => {
+      const imageFile = `mosaic-${baseName}-sheet.png`
+      const sheet = buildSpriteSheet(
+        frames.map(f => ({ image: f.imageData, delay: f.delay })),
+        spriteLayout, baseName, imageFile
+      )
+      downloadBlob(await rawImageToPng(sheet.image), imageFile)
+      downloadBlob(new Blob([JSON.stringify(sheet.manifest, null, 2)], { type: 'application/json' }), `mosaic-${baseName}-sheet.json`)
+      showToast('✅ 精灵图导出成功')
+    })
+  }, [fileType, fileName, gifFrames, spriteLayout, runFrameExport, showToast])
+
+  const handleExportSvg = useCallback(() => {
+    if (!sourceCanvasRef.current || !fileType) return
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    const svg = renderGridToSvg(currentGrid(), getMosaicOpts())
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `mosaic-${baseName}.svg`)
+    showToast('✅ SVG 导出成功')
+  }, [fileType, fileName, currentGrid, getMosaicOpts, showToast])
+
+  const handleExportText = useCallback(() => {
+    if (!sourceCanvasRef.current || !fileType) return
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    const format = TEXT_FORMATS.find(f => f.id === textFormat)!
+    const text = renderGridToText(currentGrid(), textFormat)
+    downloadBlob(new Blob([text], { type: `${format.mime};charset=utf-8` }), `mosaic-${baseName}.${format.ext}`)
+    showToast('✅ 文本导出成功')
+  }, [fileType, fileName, currentGrid, textFormat, showToast])
+
+  const handleCopyText = useCallback(async () => {
+    if (!sourceCanvasRef.current || !fileType) return
+    const grid = currentGrid()
+    try {
+      if (textFormat === 'html') {
+        // Rich paste keeps the colors; plain-text targets get the bare characters
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/html': new Blob([renderGridToText(grid, 'html')], { type: 'text/html' }),
+            'text/plain': new Blob([renderGridToText(grid, 'txt')], { type: 'text/plain' }),
+          })
+        ])
+      } else {
+        await navigator.clipboard.writeText(renderGridToText(grid, textFormat))
       }
+      showToast('📋 文本已复制到剪贴板')
+    } catch {
+      showToast('❌ 复制失败，浏览器可能不支持')
     }
-  }, [fileType, fileName, getMosaicOpts, gifFrames, showToast])
+  }, [fileType, currentGrid, textFormat, showToast])
+
+  const handleExportChart = useCallback((format: 'svg' | 'pdf') => {
+    if (!sourceCanvasRef.current || !fileType) return
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    const pattern = buildPattern(currentGrid())
+    const blob = format === 'svg'
+      ? new Blob([renderPatternSvg(pattern, fabricCount)], { type: 'image/svg+xml' })
+      : new Blob([renderPatternPdf(pattern, fabricCount)], { type: 'application/pdf' })
+    downloadBlob(blob, `cross-stitch-${baseName}.${format}`)
+    showToast(`✅ 十字绣图纸已导出（${pattern.threads.length} 色）`)
+  }, [fileType, fileName, currentGrid, fabricCount, showToast])
+
+  const handleExportPlan = useCallback((format: 'pdf' | 'csv') => {
+    if (!sourceCanvasRef.current || !fileType) return
+    const baseName = fileName.replace(/\.[^.]+$/, '')
+    const plan = buildPlan(currentGrid(), palettes[paletteIndex], boardSize, colorMetric)
+    const blob = format === 'pdf'
+      ? new Blob([renderPlanPdf(plan)], { type: 'application/pdf' })
+      : new Blob([planToCsv(plan)], { type: 'text/csv;charset=utf-8' })
+    downloadBlob(blob, `${format === 'pdf' ? 'build-plan' : 'parts'}-${baseName}.${format}`)
+    showToast(format === 'pdf' ? `✅ 已导出 ${plan.boards.length} 块板的图纸` : '✅ 物料清单已导出')
+  }, [fileType, fileName, currentGrid, palettes, paletteIndex, boardSize, colorMetric, showToast])
+
+  const handleCancelExport = () => {
+    exportAbortRef.current?.abort()
+  }
+
+  const handleDownloadEncoded = () => {
+    if (!encodedExport) return
+    downloadBlob(encodedExport.blob, encodedExport.filename)
+    setEncodedExport(null)
+  }
+
+  // An encoded animation no longer matches once the look, frames or format change
+  useEffect(() => {
+    setEncodedExport(null)
+  }, [getMosaicOpts, sequence, animationFormat, exportSize, gifFrames])
 
   const handleCopyToClipboard = useCallback(async () => {
     if (!resultCanvasRef.current) return
@@ -241,25 +1089,111 @@ export default function App() {
   }, [showToast])
 
   const handleReset = () => {
+    exportAbortRef.current?.abort()
     stopGifPlayback()
     setFileType(null)
     setFileName('')
     setFileSize('')
     setGifFrames([])
+    setTimeline([])
     setDimensions({ w: 0, h: 0 })
     imageRef.current = null
   }
 
+  const addToBatch = (files: File[]) => {
+    const images = files.filter(f => f.type.startsWith('image/'))
+    if (!images.length) {
+      showToast('❌ 没有可用的图片')
+      return
+    }
+    setBatchItems(items => [...items, ...images.map((file): BatchItem => ({
+      id: batchIdRef.current++,
+      file,
+      thumb: URL.createObjectURL(file),
+      status: 'pending',
+    }))])
+    showToast(`✅ 已加入 ${images.length} 张图片到批量队列`)
+  }
+
+  const handleAddBatchFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    addToBatch(files)
+  }
+
+  const removeBatchItem = (id: number) => {
+    setBatchItems(items => items.filter(item => {
+      if (item.id === id) URL.revokeObjectURL(item.thumb)
+      return item.id !== id
+    }))
+  }
+
+  const clearBatch = () => {
+    batchItems.forEach(item => URL.revokeObjectURL(item.thumb))
+    setBatchItems([])
+  }
+
+  // Thumbnails are object URLs; release whatever is still queued when the app goes away
+  const batchItemsRef = useRef(batchItems)
+  useEffect(() => { batchItemsRef.current = batchItems }, [batchItems])
+  useEffect(() => () => batchItemsRef.current.forEach(item => URL.revokeObjectURL(item.thumb)), [])
+
+  /** Render every queued file with the current look in the workers and download the results as one ZIP */
+  const handleRunBatch = async () => {
+    const items = batchItems
+    if (!items.length) return
+    const controller = new AbortController()
+    batchAbortRef.current = controller
+    setBatchRunning(true)
+    const setStatus = (id: number, status: BatchStatus) =>
+      setBatchItems(list => list.map(item => (item.id === id ? { ...item, status } : item)))
+    setBatchItems(list => list.map(item => ({ ...item, status: 'pending' })))
+
+    // The mask is painted for the preview image only; adaptive palettes are extracted per file
+    const options = { ...getMosaicOpts(), mask: undefined }
+    const adaptive = colorMode === 'adaptive' ? { colors: adaptiveColors, method: adaptiveMethod } : undefined
+    const names = uniqueNames(items.map((item, i) => formatBatchName(batchPattern, item.file.name, i, items.length)))
+    try {
+      const results = await processFilesInWorkers(items.map(item => item.file), options, {
+        signal: controller.signal,
+        size: exportSize,
+        adaptive,
+        onStart: i => setStatus(items[i].id, 'processing'),
+        onFile: (i, result) => setStatus(items[i].id, result instanceof Blob ? 'done' : 'error'),
+      })
+      const entries = await Promise.all(results.map(async (blob, i) =>
+        blob && { name: names[i], data: new Uint8Array(await blob.arrayBuffer()) }
+      ))
+      const done = entries.filter(e => e !== null)
+      if (!done.length) {
+        showToast('❌ 没有成功处理的图片')
+        return
+      }
+      downloadBlob(createZip(done), 'mosaic-batch.zip')
+      const failed = items.length - done.length
+      showToast(failed ? `✅ 已导出 ${done.length} 张，${failed} 张失败` : `✅ 已导出 ${done.length} 张图片`)
+    } catch (err) {
+      setBatchItems(list => list.map(item => (item.status === 'processing' ? { ...item, status: 'pending' } : item)))
+      showToast(isAbortError(err) ? '已取消批量处理' : '❌ 批量处理失败')
+    } finally {
+      batchAbortRef.current = null
+      setBatchRunning(false)
+    }
+  }
+
   const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) handleFile(file)
+    const files = Array.from(e.target.files ?? [])
+    // Several files go to the batch queue; the first one is loaded for previewing the look
+    if (files.length > 1) addToBatch(files)
+    if (files[0]) handleFile(files[0])
   }
 
   const onDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setDragging(false)
-    const file = e.dataTransfer.files[0]
-    if (file) handleFile(file)
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length > 1) addToBatch(files)
+    if (files[0]) handleFile(files[0])
   }
 
   return (
@@ -293,7 +1227,7 @@ export default function App() {
             >
               <div className="upload-icon" aria-hidden="true">↑</div>
               <div className="upload-title">拖拽文件到这里，或点击上传</div>
-              <div className="upload-hint">支持 JPG、PNG、GIF 格式</div>
+              <div className="upload-hint">支持 JPG、PNG、GIF 格式，选择多个文件可批量处理</div>
               <div className="upload-examples" aria-hidden="true">
                 <span className="example-chip">🟦 方块</span>
                 <span className="example-chip">🔵 圆形</span>
@@ -301,7 +1235,7 @@ export default function App() {
                 <span className="example-chip">✖ 十字绣</span>
                 <span className="example-chip">A ASCII</span>
               </div>
-              <input type="file" accept="image/*" onChange={onFileChange} aria-label="Choose file" tabIndex={-1} />
+              <input type="file" accept="image/*" multiple onChange={onFileChange} aria-label="Choose file" tabIndex={-1} />
             </div>
           ) : (
             <div className="compare-wrapper">
@@ -310,51 +1244,50 @@ export default function App() {
               <canvas ref={resultCanvasRef} style={{ display: 'none' }} />
 
               {/* Visible comparison canvas */}
-              <canvas
-                ref={compareCanvasRef}
-                className="compare-canvas"
-                role="img"
-                aria-label="Image comparison: drag to compare original and pixelated versions"
-                onMouseDown={(e) => {
-                  isDraggingSlider.current = true
-                  const rect = e.currentTarget.getBoundingClientRect()
-                  setSliderPos(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)))
-                }}
-                onMouseMove={(e) => {
-                  if (!isDraggingSlider.current) return
-                  const rect = e.currentTarget.getBoundingClientRect()
-                  setSliderPos(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)))
-                }}
-                onMouseUp={() => { isDraggingSlider.current = false }}
-                onMouseLeave={() => { isDraggingSlider.current = false }}
-                onTouchStart={(e) => {
-                  isDraggingSlider.current = true
-                  const rect = e.currentTarget.getBoundingClientRect()
-                  const touch = e.touches[0]
-                  setSliderPos(Math.max(0, Math.min(1, (touch.clientX - rect.left) / rect.width)))
-                }}
-                onTouchMove={(e) => {
-                  if (!isDraggingSlider.current) return
-                  const rect = e.currentTarget.getBoundingClientRect()
-                  const touch = e.touches[0]
-                  setSliderPos(Math.max(0, Math.min(1, (touch.clientX - rect.left) / rect.width)))
-                }}
-                onTouchEnd={() => { isDraggingSlider.current = false }}
-              />
-
-              <div className="compare-labels" aria-hidden="true">
-                <span>原图</span>
-                <span>像素化</span>
-              </div>
-
-              {fileType === 'gif' && gifFrames.length > 1 && (
-                <button
-                  className="btn btn-ghost gif-play-btn"
-                  onClick={gifPlaying ? stopGifPlayback : startGifPlayback}
-                  aria-label={gifPlaying ? 'Pause GIF animation' : 'Play GIF animation'}
-                >
-                  {gifPlaying ? '⏸ 暂停' : '▶ 播放'}
-                </button>
+              <CompareView
+                mode={compareMode}
+                onModeChange={setCompareMode}
+                opacity={onionOpacity}
+                onOpacityChange={setOnionOpacity}
+                masking={maskEnabled}
+                geometry={{ layout, cellSize: pixelSize, width: dimensions.w, height: dimensions.h }}
+                inspect={inspectAt}
+                onGestureStart={handleCompareGesture}
+              >
+                <canvas
+                  ref={compareCanvasRef}
+                  className="compare-canvas"
+                  role="img"
+                  aria-label={maskEnabled
+                    ? 'Mask editor: paint where the mosaic applies'
+                    : COMPARE_LABELS[compareMode]}
+                  style={maskEnabled ? { cursor: 'crosshair' } : undefined}
+                  onPointerDown={handleComparePointerDown}
+                  onPointerMove={handleComparePointerMove}
+                  onPointerUp={handleComparePointerUp}
+                  onPointerCancel={handleComparePointerUp}
+                />
+              </CompareView>
+
+              {!maskEnabled && (
+                <div className="compare-labels" aria-hidden="true">
+                  {compareMode === 'hold' ? <span>{holding ? '原图' : '像素化 · 按住画面查看原图'}</span>
+                    : compareMode === 'onion' ? <><span>原图</span><span>像素化 {onionOpacity}%</span></>
+                      : <><span>原图</span><span>像素化</span></>}
+                </div>
+              )}
+
+              {fileType === 'gif' && timeline.length > 0 && (
+                <GifTimeline
+                  frames={timeline}
+                  thumbs={gifThumbs}
+                  position={Math.min(timelinePos, timeline.length - 1)}
+                  playing={gifPlaying}
+                  onSeek={seekGifFrame}
+                  onTogglePlay={gifPlaying ? stopGifPlayback : startGifPlayback}
+                  onChange={setTimeline}
+                  onReset={() => setTimeline(initialTimeline(gifFrames))}
+                />
               )}
             </div>
           )}
@@ -401,97 +1334,1004 @@ export default function App() {
                 {shape === 'diamond' && '菱形排列，几何感更强'}
                 {shape === 'cross' && '十字绣风格，像手工刺绣'}
                 {shape === 'ascii' && '用字符密度表现明暗，复古终端风'}
+                {shape === 'photo' && '每个色块换成图库中颜色最接近的图片'}
               </span>
             </div>
 
-            {/* Color mode selector */}
+            {/* Grid layout selector */}
             <div className="control-item">
               <div className="control-header">
-                <span className="control-label">色彩模式</span>
+                <span className="control-label">网格布局</span>
               </div>
-              <div className="mode-tabs" role="radiogroup" aria-label="Color mode">
-                {([['grayscale', '黑白灰'], ['color', '彩色'], ['palette', '调色板']] as const).map(([mode, label]) => (
+              <div className="shape-selector" role="radiogroup" aria-label="Grid layout">
+                {GRID_LAYOUTS.map(l => (
                   <button
-                    key={mode}
-                    className={`mode-tab ${colorMode === mode ? 'active' : ''}`}
-                    onClick={() => setColorMode(mode)}
+                    key={l.id}
+                    className={`shape-btn ${layout === l.id ? 'active' : ''}`}
+                    onClick={() => setLayout(l.id)}
+                    title={l.name}
                     role="radio"
-                    aria-checked={colorMode === mode}
+                    aria-checked={layout === l.id}
+                    aria-label={l.name}
                   >
-                    {label}
+                    <span className="shape-icon" aria-hidden="true">{l.icon}</span>
+                    <span className="shape-name">{l.name}</span>
                   </button>
                 ))}
               </div>
               <span className="control-desc">
-                {colorMode === 'grayscale' && '经典黑白灰像素风格'}
-                {colorMode === 'color' && '保留原始色彩，量化为像素色块'}
-                {colorMode === 'palette' && '映射到经典调色板配色'}
+                {layout === 'square' && '标准方格，十字绣与拼豆图纸只支持此布局'}
+                {(layout === 'hex-pointy' || layout === 'hex-flat') && '蜂窝六边形，按真实六边形区域取色，无缝拼接'}
+                {layout === 'triangle' && '正三角形交错排列，几何低多边形风格'}
+                {layout === 'brick' && '隔行错开半格，像砖墙或马赛克瓷砖'}
               </span>
             </div>
 
-            {/* Levels slider — for grayscale and color */}
-            {colorMode !== 'palette' && (
+            {shape === 'cross' && layout === 'square' && (
               <div className="control-item">
                 <div className="control-header">
-                  <span className="control-label">{colorMode === 'grayscale' ? '灰度层级' : '色彩层级'}</span>
-                  <span className="control-value">{levels}</span>
+                  <span className="control-label">十字绣图纸</span>
+                  <span className="control-value">
+                    {Math.ceil(dimensions.w / pixelSize)} × {Math.ceil(dimensions.h / pixelSize)} 针
+                  </span>
+                </div>
+                <div className="mode-tabs" role="radiogroup" aria-label="Fabric count">
+                  {FABRIC_COUNTS.map(ct => (
+                    <button
+                      key={ct}
+                      className={`mode-tab ${fabricCount === ct ? 'active' : ''}`}
+                      onClick={() => setFabricCount(ct)}
+                      role="radio"
+                      aria-checked={fabricCount === ct}
+                    >
+                      {ct} ct
+                    </button>
+                  ))}
                 </div>
-                <input type="range" min={2} max={8} value={levels}
-                  onChange={e => setLevels(Number(e.target.value))} aria-label={`Color levels: ${levels}`} />
                 <span className="control-desc">
-                  {colorMode === 'grayscale'
-                    ? '2 = 纯黑白，数值越大灰度过渡越细腻'
-                    : '数值越小色彩越少越复古，越大越接近原色'}
+                  成品尺寸 {(Math.ceil(dimensions.w / pixelSize) / fabricCount * 2.54).toFixed(1)} × {(Math.ceil(dimensions.h / pixelSize) / fabricCount * 2.54).toFixed(1)} cm，颜色按 DMC 绣线匹配
                 </span>
+                <div className="palette-editor-actions">
+                  <button className="btn btn-ghost btn-sm" disabled={!fileType} onClick={() => handleExportChart('svg')} aria-label="Export chart as SVG">导出图纸 SVG</button>
+                  <button className="btn btn-ghost btn-sm" disabled={!fileType} onClick={() => handleExportChart('pdf')} aria-label="Export chart as PDF">导出图纸 PDF</button>
+                </div>
               </div>
             )}
 
-            {/* Palette picker */}
-            {colorMode === 'palette' && (
+            {shape === 'ascii' && (
               <div className="control-item">
                 <div className="control-header">
-                  <span className="control-label">调色板</span>
+                  <span className="control-label">文本格式</span>
                 </div>
-                <div className="palette-list">
-                  {PALETTES.map((p, i) => (
+                <select className="select" value={textFormat}
+                  onChange={e => setTextFormat(e.target.value as TextFormat)} aria-label="Text export format">
+                  {TEXT_FORMATS.map(f => (
+                    <option key={f.id} value={f.id}>{f.name}</option>
+                  ))}
+                </select>
+                <span className="control-desc">
+                  {textFormat === 'txt' && '纯字符，可粘贴到任何地方'}
+                  {textFormat === 'ansi256' && '终端 256 色转义序列，兼容性好'}
+                  {textFormat === 'truecolor' && '终端 24 位真彩色转义序列'}
+                  {textFormat === 'html' && '带颜色的独立 HTML 页面'}
+                </span>
+              </div>
+            )}
+
+            {shape === 'photo' && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">照片图库</span>
+                  <span className="control-value">{tiles.length} 张</span>
+                </div>
+                <div className="palette-editor-actions">
+                  <label className="btn btn-ghost btn-sm file-btn">
+                    添加图片
+                    <input type="file" accept="image/*" multiple onChange={handleAddTiles} aria-label="Add tile images" />
+                  </label>
+                  <label className="btn btn-ghost btn-sm file-btn">
+                    添加文件夹
+                    <input type="file" {...{ webkitdirectory: '' }} onChange={handleAddTiles} aria-label="Add a folder of tile images" />
+                  </label>
+                  <button className="btn btn-ghost btn-sm" disabled={!tiles.length} onClick={() => setTiles([])}>清空</button>
+                </div>
+                <span className="control-desc">
+                  {tiles.length ? '按颜色为每个色块挑选图块' : '上传一组照片或表情贴图作为图块，加载前按方块显示'}
+                </span>
+
+                <div className="mode-tabs" role="radiogroup" aria-label="Tile matching">
+                  {TILE_MATCHES.map(m => (
                     <button
-                      key={p.name}
-                      className={`palette-option ${paletteIndex === i ? 'active' : ''}`}
-                      onClick={() => setPaletteIndex(i)}
+                      key={m.id}
+                      className={`mode-tab ${tileMatch === m.id ? 'active' : ''}`}
+                      onClick={() => setTileMatch(m.id)}
+                      role="radio"
+                      aria-checked={tileMatch === m.id}
                     >
-                      <div className="palette-colors">
-                        {p.colors.slice(0, 6).map((c, j) => (
-                          <span key={j} className="palette-dot" style={{ background: `rgb(${c[0]},${c[1]},${c[2]})` }} />
-                        ))}
-                      </div>
-                      <span className="palette-name">{p.name}</span>
+                      {m.name}
                     </button>
                   ))}
                 </div>
-              </div>
-            )}
-          </div>
 
-          {fileType && (
+                <div className="control-header">
+                  <span className="control-label">重复上限</span>
+                  <span className="control-value">{tileReuse || '不限'}</span>
+                </div>
+                <input type="range" min={0} max={20} value={tileReuse}
+                  onChange={e => setTileReuse(Number(e.target.value))} aria-label={`Tile reuse limit: ${tileReuse || 'unlimited'}`} />
+
+                <div className="control-header">
+                  <span className="control-label">着色</span>
+                  <span className="control-value">{tileTint}%</span>
+                </div>
+                <input type="range" min={0} max={100} value={tileTint}
+                  onChange={e => setTileTint(Number(e.target.value))} aria-label={`Tile tint: ${tileTint}%`} />
+                <span className="control-desc">把图块颜色向目标色偏移，图库较小时能让画面更清晰</span>
+              </div>
+            )}
+
+            {/* Sampling selector */}
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">取样方式</span>
+              </div>
+              <select className="select" value={sampling}
+                onChange={e => setSampling(e.target.value as SamplingMode)} aria-label="Block sampling">
+                {SAMPLINGS.map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+              <span className="control-desc">
+                {sampling === 'center' && '取色块中心像素，速度最快'}
+                {sampling === 'mean' && '整个色块的平均色，画面更平滑'}
+                {sampling === 'median' && '各通道中位数，抗噪点能力强'}
+                {sampling === 'dominant' && '色块中出现最多的颜色，边缘更干净'}
+                {sampling === 'luminance' && '按亮度加权平均，保留高光细节'}
+              </span>
+            </div>
+
+            {/* Color mode selector */}
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">色彩模式</span>
+              </div>
+              <div className="mode-tabs" role="radiogroup" aria-label="Color mode">
+                {([['grayscale', '黑白灰'], ['color', '彩色'], ['palette', '调色板'], ['adaptive', '自适应']] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    className={`mode-tab ${colorMode === mode ? 'active' : ''}`}
+                    onClick={() => setColorMode(mode)}
+                    role="radio"
+                    aria-checked={colorMode === mode}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <span className="control-desc">
+                {colorMode === 'grayscale' && '经典黑白灰像素风格'}
+                {colorMode === 'color' && '保留原始色彩，量化为像素色块'}
+                {colorMode === 'palette' && '映射到经典调色板配色'}
+                {colorMode === 'adaptive' && '从图片中提取专属调色板，色相更准确'}
+              </span>
+            </div>
+
+            {/* Levels slider — for grayscale and color */}
+            {(colorMode === 'grayscale' || colorMode === 'color') && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">{colorMode === 'grayscale' ? '灰度层级' : '色彩层级'}</span>
+                  <span className="control-value">{levels}</span>
+                </div>
+                <input type="range" min={2} max={8} value={levels}
+                  onChange={e => setLevels(Number(e.target.value))} aria-label={`Color levels: ${levels}`} />
+                <span className="control-desc">
+                  {colorMode === 'grayscale'
+                    ? '2 = 纯黑白，数值越大灰度过渡越细腻'
+                    : '数值越小色彩越少越复古，越大越接近原色'}
+                </span>
+              </div>
+            )}
+
+            {/* Palette picker */}
+            {colorMode === 'palette' && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">调色板</span>
+                  {!editingPalette && (
+                    <button className="link-btn" onClick={handleEditPalette} aria-label="Edit palette">编辑</button>
+                  )}
+                </div>
+                {editingPalette && paletteIndex >= PALETTES.length ? (
+                  <PaletteEditor
+                    palette={palettes[paletteIndex]}
+                    onChange={updateCustomPalette}
+                    onDelete={deleteCustomPalette}
+                    onClose={() => setEditingPalette(false)}
+                  />
+                ) : (
+                  <>
+                    <div className="palette-list">
+                      {palettes.map((p, i) => (
+                        <button
+                          key={i}
+                          className={`palette-option ${paletteIndex === i ? 'active' : ''}`}
+                          onClick={() => setPaletteIndex(i)}
+                        >
+                          <div className="palette-colors">
+                            {p.colors.slice(0, 6).map((c, j) => (
+                              <span key={j} className="palette-dot" style={{ background: `rgb(${c[0]},${c[1]},${c[2]})` }} />
+                            ))}
+                          </div>
+                          <span className="palette-name">{p.name}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <div className="palette-editor-actions">
+                      <button className="btn btn-ghost btn-sm" onClick={handleNewPalette}>＋ 新建</button>
+                      <label className="btn btn-ghost btn-sm file-btn">
+                        导入
+                        <input type="file" accept=".gpl,.hex,.txt,.pal,.ase" onChange={handleImportPalette} aria-label="Import palette file" />
+                      </label>
+                    </div>
+                    <span className="control-desc">支持 GIMP .gpl、HEX、JASC .pal、Adobe .ase（可从 Lospec 下载）</span>
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Bead board / brick baseplate build plan */}
+            {colorMode === 'palette' && layout === 'square' && BUILD_PALETTES.includes(palettes[paletteIndex]) && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">拼装图纸</span>
+                  <span className="control-value">
+                    {Math.ceil(Math.ceil(dimensions.w / pixelSize) / boardSize)} × {Math.ceil(Math.ceil(dimensions.h / pixelSize) / boardSize)} 块板
+                  </span>
+                </div>
+                <div className="mode-tabs" role="radiogroup" aria-label="Board size">
+                  {BOARD_SIZES.map(b => (
+                    <button
+                      key={b.id}
+                      className={`mode-tab ${boardSize === b.id ? 'active' : ''}`}
+                      onClick={() => setBoardSize(b.id)}
+                      role="radio"
+                      aria-checked={boardSize === b.id}
+                    >
+                      {b.name}
+                    </button>
+                  ))}
+                </div>
+                <span className="control-desc">
+                  共 {Math.ceil(dimensions.w / pixelSize) * Math.ceil(dimensions.h / pixelSize)} 颗，按板分区并统计每种颜色的数量
+                </span>
+                <div className="palette-editor-actions">
+                  <button className="btn btn-ghost btn-sm" disabled={!fileType} onClick={() => handleExportPlan('pdf')} aria-label="Export build plan as PDF">导出图纸 PDF</button>
+                  <button className="btn btn-ghost btn-sm" disabled={!fileType} onClick={() => handleExportPlan('csv')} aria-label="Export parts list as CSV">导出物料 CSV</button>
+                </div>
+              </div>
+            )}
+
+            {/* Adaptive palette extraction */}
+            {colorMode === 'adaptive' && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">颜色数量</span>
+                  <span className="control-value">{adaptiveColors}</span>
+                </div>
+                <input type="range" min={2} max={64} value={adaptiveColors}
+                  onChange={e => setAdaptiveColors(Number(e.target.value))} aria-label={`Palette size: ${adaptiveColors}`} />
+                <div className="mode-tabs" role="radiogroup" aria-label="Extraction method">
+                  {EXTRACT_METHODS.map(m => (
+                    <button
+                      key={m.id}
+                      className={`mode-tab ${adaptiveMethod === m.id ? 'active' : ''}`}
+                      onClick={() => setAdaptiveMethod(m.id)}
+                      role="radio"
+                      aria-checked={adaptiveMethod === m.id}
+                    >
+                      {m.name}
+                    </button>
+                  ))}
+                </div>
+                {adaptivePalette && (
+                  <div className="palette-preview" aria-label="Extracted palette">
+                    {adaptivePalette.colors.map((c, j) => (
+                      <span key={j} className="palette-swatch" style={{ background: `rgb(${c[0]},${c[1]},${c[2]})` }} />
+                    ))}
+                  </div>
+                )}
+                <button className="btn btn-ghost btn-sm" disabled={!adaptivePalette} onClick={handleSaveAdaptivePalette}>
+                  保存为调色板
+                </button>
+                <span className="control-desc">
+                  {adaptiveMethod === 'median-cut' ? '按颜色分布切分，速度快' : '迭代聚类，颜色更贴近原图'}
+                  {fileType === 'gif' && '；GIF 所有帧共用一个调色板'}
+                </span>
+              </div>
+            )}
+
+            {/* Color distance metric — palette matching only */}
+            {(colorMode === 'palette' || colorMode === 'adaptive') && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">色差算法</span>
+                </div>
+                <select className="select" value={colorMetric}
+                  onChange={e => setColorMetric(e.target.value as ColorMetric)} aria-label="Color distance metric">
+                  {COLOR_METRICS.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+                <span className="control-desc">
+                  {colorMetric === 'rgb' && 'RGB 欧氏距离，最快'}
+                  {colorMetric === 'redmean' && '按人眼敏感度加权的 RGB 距离'}
+                  {colorMetric === 'cie76' && 'CIELAB 空间距离，更符合感知'}
+                  {colorMetric === 'ciede2000' && 'CIEDE2000，肤色和暗蓝最准确'}
+                  {colorMetric === 'oklab' && 'OKLab 感知均匀空间，色相保持好'}
+                </span>
+              </div>
+            )}
+
+            {/* Dithering */}
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">抖动</span>
+              </div>
+              <select className="select" value={dither}
+                onChange={e => setDither(e.target.value as DitherMode)} aria-label="Dithering mode">
+                {DITHERS.map(d => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+              </select>
+              <span className="control-desc">
+                {dither === 'none' && '每个像素块独立映射颜色'}
+                {(dither === 'floyd-steinberg' || dither === 'atkinson' || dither === 'sierra') && '误差扩散，用相邻色块混合出中间色调'}
+                {dither.startsWith('bayer') && '有序抖动，规则网点的复古印刷质感'}
+              </span>
+            </div>
+
+            {dither !== 'none' && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">抖动强度</span>
+                  <span className="control-value">{ditherStrength}%</span>
+                </div>
+                <input type="range" min={0} max={100} value={ditherStrength}
+                  onChange={e => setDitherStrength(Number(e.target.value))} aria-label={`Dither strength: ${ditherStrength}%`} />
+              </div>
+            )}
+
+            {/* Background and transparency */}
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">背景</span>
+                {background === 'solid' && (
+                  <label className="color-swatch" style={{ background: `#${toHex(backgroundColor)}` }} title={`#${toHex(backgroundColor)}`}>
+                    <input type="color" value={`#${toHex(backgroundColor)}`}
+                      onChange={e => setBackgroundColor(fromHex(e.target.value) ?? backgroundColor)}
+                      aria-label={`Background color: #${toHex(backgroundColor)}`} />
+                  </label>
+                )}
+              </div>
+              <div className="mode-tabs" role="radiogroup" aria-label="Background">
+                {BACKGROUNDS.map(b => (
+                  <button
+                    key={b.id}
+                    className={`mode-tab ${background === b.id ? 'active' : ''}`}
+                    onClick={() => setBackground(b.id)}
+                    role="radio"
+                    aria-checked={background === b.id}
+                  >
+                    {b.name}
+                  </button>
+                ))}
+              </div>
+              <span className="control-desc">
+                {background === 'auto' && '色块下衬黑底，透明区域保持透明'}
+                {background === 'solid' && '整张图铺满所选颜色'}
+                {background === 'transparent' && '不画背景，形状之间也透明，导出 PNG/GIF 保留透明'}
+                {background === 'checker' && '灰白棋盘格，方便查看透明区域'}
+              </span>
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">透明阈值</span>
+                <span className="control-value">{alphaThreshold}%</span>
+              </div>
+              <input type="range" min={0} max={100} value={alphaThreshold}
+                onChange={e => setAlphaThreshold(Number(e.target.value))} aria-label={`Alpha threshold: ${alphaThreshold}%`} />
+              <div className="mode-tabs" role="radiogroup" aria-label="Transparent blocks">
+                {ALPHA_MODES.map(m => (
+                  <button
+                    key={m.id}
+                    className={`mode-tab ${alphaMode === m.id ? 'active' : ''}`}
+                    onClick={() => setAlphaMode(m.id)}
+                    role="radio"
+                    aria-checked={alphaMode === m.id}
+                  >
+                    {m.name}
+                  </button>
+                ))}
+              </div>
+              <span className="control-desc">不透明像素占比低于阈值的色块{alphaMode === 'skip' ? '不绘制' : '按平均透明度绘制（GIF 只支持全透明）'}</span>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h2>图像调整</h2>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">亮度</span>
+                <span className="control-value">{Math.round(adjustments.brightness * 100)}</span>
+              </div>
+              <input type="range" min={-100} max={100} value={Math.round(adjustments.brightness * 100)}
+                onChange={e => adjust({ brightness: Number(e.target.value) / 100 })} aria-label={`Brightness: ${Math.round(adjustments.brightness * 100)}`} />
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">对比度</span>
+                <span className="control-value">{Math.round(adjustments.contrast * 100)}</span>
+              </div>
+              <input type="range" min={-100} max={100} value={Math.round(adjustments.contrast * 100)}
+                onChange={e => adjust({ contrast: Number(e.target.value) / 100 })} aria-label={`Contrast: ${Math.round(adjustments.contrast * 100)}`} />
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">伽马</span>
+                <span className="control-value">{adjustments.gamma.toFixed(1)}</span>
+              </div>
+              <input type="range" min={0.2} max={5} step={0.1} value={adjustments.gamma}
+                onChange={e => adjust({ gamma: Number(e.target.value) })} aria-label={`Gamma: ${adjustments.gamma.toFixed(1)}`} />
+              <span className="control-desc">大于 1 提亮中间调，小于 1 压暗</span>
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">饱和度</span>
+                <span className="control-value">{Math.round(adjustments.saturation * 100)}</span>
+              </div>
+              <input type="range" min={-100} max={100} value={Math.round(adjustments.saturation * 100)}
+                onChange={e => adjust({ saturation: Number(e.target.value) / 100 })} aria-label={`Saturation: ${Math.round(adjustments.saturation * 100)}`} />
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">色相</span>
+                <span className="control-value">{adjustments.hue}°</span>
+              </div>
+              <input type="range" min={-180} max={180} value={adjustments.hue}
+                onChange={e => adjust({ hue: Number(e.target.value) })} aria-label={`Hue shift: ${adjustments.hue} degrees`} />
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">色调分离</span>
+                <span className="control-value">{adjustments.posterize < 2 ? '关' : `${adjustments.posterize} 级`}</span>
+              </div>
+              <input type="range" min={1} max={16} value={Math.max(1, adjustments.posterize)}
+                onChange={e => adjust({ posterize: Number(e.target.value) < 2 ? 0 : Number(e.target.value) })}
+                aria-label={`Posterize: ${adjustments.posterize < 2 ? 'off' : `${adjustments.posterize} levels`}`} />
+              <span className="control-desc">每个通道保留的色阶数，采样前先压平渐变</span>
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">锐化</span>
+                <span className="control-value">{Math.round(adjustments.sharpen * 100)}%</span>
+              </div>
+              <input type="range" min={0} max={200} value={Math.round(adjustments.sharpen * 100)}
+                onChange={e => adjust({ sharpen: Number(e.target.value) / 100 })} aria-label={`Sharpen: ${Math.round(adjustments.sharpen * 100)}%`} />
+            </div>
+
+            {adjustments.sharpen > 0 && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">锐化半径</span>
+                  <span className="control-value">{adjustments.sharpenRadius}px</span>
+                </div>
+                <input type="range" min={1} max={10} value={adjustments.sharpenRadius}
+                  onChange={e => adjust({ sharpenRadius: Number(e.target.value) })} aria-label={`Sharpen radius: ${adjustments.sharpenRadius}px`} />
+              </div>
+            )}
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">反相</span>
+              </div>
+              <div className="mode-tabs" role="radiogroup" aria-label="Invert colors">
+                {[false, true].map(on => (
+                  <button
+                    key={String(on)}
+                    className={`mode-tab ${adjustments.invert === on ? 'active' : ''}`}
+                    onClick={() => adjust({ invert: on })}
+                    role="radio"
+                    aria-checked={adjustments.invert === on}
+                  >
+                    {on ? '开' : '关'}
+                  </button>
+                ))}
+              </div>
+              <span className="control-desc">调整作用于采样前的原图，静态图和动图每一帧都生效</span>
+              <div className="palette-editor-actions">
+                <button className="btn btn-ghost btn-sm" onClick={() => setAdjustments(NO_ADJUSTMENTS)} aria-label="Reset adjustments">重置</button>
+              </div>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h2>描边与网格</h2>
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">像素描边</span>
+              </div>
+              <div className="mode-tabs" role="radiogroup" aria-label="Outline">
+                {OUTLINE_MODES.map(m => (
+                  <button
+                    key={m.id}
+                    className={`mode-tab ${outline === m.id ? 'active' : ''}`}
+                    onClick={() => setOutline(m.id)}
+                    role="radio"
+                    aria-checked={outline === m.id}
+                  >
+                    {m.name}
+                  </button>
+                ))}
+              </div>
+              <span className="control-desc">
+                {outline === 'none' && '不描边'}
+                {outline === 'edges' && '在原图边缘较暗的一侧描一格轮廓'}
+                {outline === 'boundary' && '在颜色不同的相邻色块中较暗的一格描边'}
+              </span>
+            </div>
+
+            {outline !== 'none' && (
+              <>
+                <div className="control-item">
+                  <div className="control-header">
+                    <span className="control-label">{outline === 'edges' ? '边缘阈值' : '色差阈值'}</span>
+                    <span className="control-value">{outlineThreshold}%</span>
+                  </div>
+                  <input type="range" min={0} max={100} value={outlineThreshold}
+                    onChange={e => setOutlineThreshold(Number(e.target.value))} aria-label={`Outline threshold: ${outlineThreshold}%`} />
+                  <span className="control-desc">值越小描边越多；透明区域的外轮廓总会描边</span>
+                </div>
+
+                <div className="control-item">
+                  <div className="control-header">
+                    <span className="control-label">描边颜色</span>
+                    {outlineSolid && (
+                      <label className="color-swatch" style={{ background: `#${toHex(outlineColor)}` }} title={`#${toHex(outlineColor)}`}>
+                        <input type="color" value={`#${toHex(outlineColor)}`}
+                          onChange={e => setOutlineColor(fromHex(e.target.value) ?? outlineColor)}
+                          aria-label={`Outline color: #${toHex(outlineColor)}`} />
+                      </label>
+                    )}
+                  </div>
+                  <div className="mode-tabs" role="radiogroup" aria-label="Outline color">
+                    {[false, true].map(solid => (
+                      <button
+                        key={String(solid)}
+                        className={`mode-tab ${outlineSolid === solid ? 'active' : ''}`}
+                        onClick={() => setOutlineSolid(solid)}
+                        role="radio"
+                        aria-checked={outlineSolid === solid}
+                      >
+                        {solid ? '指定颜色' : '加深原色'}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="control-desc">描边颜色同样映射到当前调色板</span>
+                </div>
+              </>
+            )}
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">网格线</span>
+                <span className="control-value">{gridLines ? `${gridLines}px` : '关'}</span>
+              </div>
+              <input type="range" min={0} max={8} value={gridLines}
+                onChange={e => setGridLines(Number(e.target.value))} aria-label={`Grid line thickness: ${gridLines}px`} />
+              <span className="control-desc">沿每个色块的边画线，适用于所有像素形状和网格布局；原生网格导出时不画</span>
+            </div>
+
+            {gridLines > 0 && (
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">网格线颜色</span>
+                  <label className="color-swatch" style={{ background: `#${toHex(gridColor)}` }} title={`#${toHex(gridColor)}`}>
+                    <input type="color" value={`#${toHex(gridColor)}`}
+                      onChange={e => setGridColor(fromHex(e.target.value) ?? gridColor)}
+                      aria-label={`Grid line color: #${toHex(gridColor)}`} />
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="sidebar-section">
+            <h2>预设与分享</h2>
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">历史</span>
+                <span className="control-value">Ctrl+Z / Ctrl+Shift+Z</span>
+              </div>
+              <div className="palette-editor-actions">
+                <button className="btn btn-ghost btn-sm" disabled={!historySize.undo} onClick={() => stepHistory('undo')} aria-label="Undo">↶ 撤销</button>
+                <button className="btn btn-ghost btn-sm" disabled={!historySize.redo} onClick={() => stepHistory('redo')} aria-label="Redo">↷ 重做</button>
+                <button className="btn btn-ghost btn-sm" onClick={handleCopyLink} aria-label="Copy share link">复制链接</button>
+              </div>
+              <span className="control-desc">所有参数都记录在网址中，分享链接即可让对方看到相同效果（遮罩和图库图片除外）</span>
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">预设</span>
+              </div>
+              {presets.length > 0 && (
+                <div className="palette-list">
+                  {presets.map((p, i) => (
+                    <button
+                      key={p.name}
+                      className={`palette-option ${presetIndex === i ? 'active' : ''}`}
+                      onClick={() => handleLoadPreset(i)}
+                    >
+                      <span className="palette-name">{p.name}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              <input type="text" className="text-input" value={presetName} placeholder={`预设 ${presets.length + 1}`}
+                onChange={e => setPresetName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSavePreset()}
+                aria-label="Preset name" />
+              <div className="palette-editor-actions">
+                <button className="btn btn-ghost btn-sm" onClick={handleSavePreset} aria-label="Save preset">保存当前</button>
+                {presetIndex >= 0 && (
+                  <button className="btn btn-ghost btn-sm" onClick={handleDeletePreset} aria-label="Delete preset">删除</button>
+                )}
+                <button className="btn btn-ghost btn-sm" disabled={!presets.length} onClick={handleExportPresets} aria-label="Export presets">导出</button>
+                <label className="btn btn-ghost btn-sm file-btn">
+                  导入
+                  <input type="file" accept=".json,application/json" onChange={handleImportPresets} aria-label="Import presets" />
+                </label>
+              </div>
+              <span className="control-desc">预设保存在浏览器中，可导出为 JSON 与他人共享；同名保存会覆盖</span>
+            </div>
+          </div>
+
+          <div className="sidebar-section">
+            <h2>批量处理</h2>
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">队列</span>
+                <span className="control-value">
+                  {batchItems.filter(item => item.status === 'done').length}/{batchItems.length}
+                </span>
+              </div>
+              <div className="palette-editor-actions">
+                <label className={`btn btn-ghost btn-sm file-btn ${batchRunning ? 'disabled' : ''}`}>
+                  添加图片
+                  <input type="file" accept="image/*" multiple disabled={batchRunning} onChange={handleAddBatchFiles} aria-label="Add images to batch" />
+                </label>
+                <label className={`btn btn-ghost btn-sm file-btn ${batchRunning ? 'disabled' : ''}`}>
+                  添加文件夹
+                  <input type="file" {...{ webkitdirectory: '' }} disabled={batchRunning} onChange={handleAddBatchFiles} aria-label="Add a folder to batch" />
+                </label>
+                <button className="btn btn-ghost btn-sm" disabled={!batchItems.length || batchRunning} onClick={clearBatch}>清空</button>
+              </div>
+              {batchItems.length > 0 && (
+                <ul className="batch-list" aria-label="Batch queue">
+                  {batchItems.map(item => (
+                    <li key={item.id} className={`batch-item ${item.status}`}>
+                      <img className="batch-thumb" src={item.thumb} alt="" />
+                      <span className="batch-name" title={item.file.name}>{item.file.name}</span>
+                      <span className="batch-status">{BATCH_STATUS_LABELS[item.status]}</span>
+                      <button className="batch-remove" disabled={batchRunning} onClick={() => removeBatchItem(item.id)}
+                        aria-label={`Remove ${item.file.name}`}>×</button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="control-item">
+              <div className="control-header">
+                <span className="control-label">文件名</span>
+                <span className="control-value">.png</span>
+              </div>
+              <input type="text" className="text-input" value={batchPattern} placeholder={DEFAULT_NAME_PATTERN}
+                onChange={e => setBatchPattern(e.target.value)} aria-label="Output file name pattern" />
+              <span className="control-desc">
+                {'{name}'} 为原文件名，{'{index}'} 为序号 · 例：
+                {formatBatchName(batchPattern, batchItems[0]?.file.name ?? 'photo.jpg', 0, Math.max(1, batchItems.length))}
+              </span>
+            </div>
+
+            {batchRunning ? (
+              <button className="btn btn-ghost" onClick={() => batchAbortRef.current?.abort()} aria-label="Cancel batch">取消</button>
+            ) : (
+              <button className="btn btn-ghost" disabled={!batchItems.length} onClick={handleRunBatch} aria-label="Process batch and download ZIP">
+                开始并下载 ZIP
+              </button>
+            )}
+            <span className="control-desc">按当前效果和导出尺寸处理全部图片（遮罩除外，GIF 取第一帧），在后台进行不会卡住页面</span>
+          </div>
+
+          {fileType && (
             <div className="sidebar-section">
               <h2>文件信息</h2>
               <div className="file-info">
                 {fileName}<br />
                 {dimensions.w} × {dimensions.h}px · {fileSize}
-                {fileType === 'gif' && ` · ${gifFrames.length} 帧`}
+                {fileType === 'gif' && ` · ${timeline.length} 帧`}
+              </div>
+            </div>
+          )}
+
+          {fileType === 'gif' && (
+            <div className="sidebar-section">
+              <h2>动画导出</h2>
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">播放速度</span>
+                  <span className="control-value">{gifSpeed / 100}×</span>
+                </div>
+                <input type="range" min={25} max={400} step={25} value={gifSpeed}
+                  onChange={e => setGifSpeed(Number(e.target.value))} aria-label={`Playback speed: ${gifSpeed / 100}x`} />
+              </div>
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">循环方式</span>
+                  <span className="control-value">
+                    {(sequence.reduce((sum, f) => sum + (f.delay || DEFAULT_DELAY), 0) / 1000).toFixed(2)}s
+                  </span>
+                </div>
+                <div className="mode-tabs" role="radiogroup" aria-label="Loop mode">
+                  {LOOP_MODES.map(m => (
+                    <button
+                      key={m.id}
+                      className={`mode-tab ${loopMode === m.id ? 'active' : ''}`}
+                      onClick={() => setLoopMode(m.id)}
+                      role="radio"
+                      aria-checked={loopMode === m.id}
+                    >
+                      {m.name}
+                    </button>
+                  ))}
+                </div>
+                <span className="control-desc">速度、循环方式和时间轴上的帧编辑都会应用到导出的动画</span>
+              </div>
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">动画格式</span>
+                </div>
+                <div className="mode-tabs" role="radiogroup" aria-label="Animation format">
+                  {ANIMATION_FORMATS.map(f => (
+                    <button
+                      key={f.id}
+                      className={`mode-tab ${animationFormat === f.id ? 'active' : ''}`}
+                      onClick={() => setAnimationFormat(f.id)}
+                      role="radio"
+                      aria-checked={animationFormat === f.id}
+                    >
+                      {f.name}
+                    </button>
+                  ))}
+                </div>
+                <span className="control-desc">
+                  {animationFormat === 'gif' && '兼容性最好，最多 256 色，延迟精度 10ms'}
+                  {animationFormat === 'apng' && '全彩无损，支持半透明，毫秒级延迟'}
+                  {animationFormat === 'webp' && '全彩无损，体积通常比 APNG 更小'}
+                </span>
+              </div>
+              <div className="control-item">
+                <div className="control-header">
+                  <span className="control-label">精灵图</span>
+                </div>
+                <div className="mode-tabs" role="radiogroup" aria-label="Sprite sheet layout">
+                  {SPRITE_LAYOUTS.map(l => (
+                    <button
+                      key={l.id}
+                      className={`mode-tab ${spriteLayout === l.id ? 'active' : ''}`}
+                      onClick={() => setSpriteLayout(l.id)}
+                      role="radio"
+                      aria-checked={spriteLayout === l.id}
+                    >
+                      {l.name}
+                    </button>
+                  ))}
+                </div>
+                <span className="control-desc">PNG 图集 + Aseprite/TexturePacker 格式的 JSON 帧清单</span>
+                <div className="palette-editor-actions">
+                  <button className="btn btn-ghost btn-sm" disabled={processing} onClick={handleExportSpriteSheet} aria-label="Export sprite sheet">导出精灵图</button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {fileType && (
+            <div className="sidebar-section">
+              <h2>局部马赛克</h2>
+              <div className="control-item">
+                <div className="mode-tabs" role="radiogroup" aria-label="Mosaic coverage">
+                  {[false, true].map(on => (
+                    <button
+                      key={String(on)}
+                      className={`mode-tab ${maskEnabled === on ? 'active' : ''}`}
+                      onClick={() => setMaskEnabled(on)}
+                      role="radio"
+                      aria-checked={maskEnabled === on}
+                    >
+                      {on ? '局部遮罩' : '全图'}
+                    </button>
+                  ))}
+                </div>
+                <span className="control-desc">
+                  {maskEnabled ? '在预览图上涂抹或框选，只对选中区域打码，动图每帧都生效' : '整张图片像素化'}
+                </span>
+              </div>
+
+              {maskEnabled && (
+                <>
+                  <div className="control-item">
+                    <div className="control-header">
+                      <span className="control-label">工具</span>
+                    </div>
+                    <div className="mode-tabs" role="radiogroup" aria-label="Mask tool">
+                      {MASK_TOOLS.map(t => (
+                        <button
+                          key={t.id}
+                          className={`mode-tab ${maskTool === t.id ? 'active' : ''}`}
+                          onClick={() => setMaskTool(t.id)}
+                          role="radio"
+                          aria-checked={maskTool === t.id}
+                        >
+                          {t.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {(maskTool === 'brush' || maskTool === 'eraser') && (
+                    <div className="control-item">
+                      <div className="control-header">
+                        <span className="control-label">笔刷大小</span>
+                        <span className="control-value">{brushSize}px</span>
+                      </div>
+                      <input type="range" min={4} max={200} value={brushSize}
+                        onChange={e => setBrushSize(Number(e.target.value))} aria-label={`Brush size: ${brushSize}px`} />
+                    </div>
+                  )}
+
+                  <div className="control-item">
+                    <div className="control-header">
+                      <span className="control-label">作用范围</span>
+                    </div>
+                    <div className="mode-tabs" role="radiogroup" aria-label="Mask invert">
+                      {[false, true].map(inv => (
+                        <button
+                          key={String(inv)}
+                          className={`mode-tab ${maskInvert === inv ? 'active' : ''}`}
+                          onClick={() => setMaskInvert(inv)}
+                          role="radio"
+                          aria-checked={maskInvert === inv}
+                        >
+                          {inv ? '涂抹区域以外' : '涂抹区域'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="control-item">
+                    <div className="control-header">
+                      <span className="control-label">边缘羽化</span>
+                      <span className="control-value">{maskFeather}px</span>
+                    </div>
+                    <input type="range" min={0} max={64} value={maskFeather}
+                      onChange={e => setMaskFeather(Number(e.target.value))} aria-label={`Mask feather: ${maskFeather}px`} />
+                    <span className="control-desc">0 = 硬边，数值越大马赛克与原图过渡越柔和</span>
+                    <div className="palette-editor-actions">
+                      <button className="btn btn-ghost btn-sm" onClick={handleClearMask} aria-label="Clear mask">清除遮罩</button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {fileType && (
+            <div className="sidebar-section">
+              <h2>导出尺寸</h2>
+              <div className="control-item">
+                <select className="select" value={exportSizeMode}
+                  onChange={e => setExportSizeMode(e.target.value as ExportSizeMode)} aria-label="Export size">
+                  {EXPORT_SIZE_MODES.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+                {exportSizeMode === 'scale' && (
+                  <div className="mode-tabs" role="radiogroup" aria-label="Export scale">
+                    {EXPORT_SCALES.map(k => (
+                      <button
+                        key={k}
+                        className={`mode-tab ${exportScale === k ? 'active' : ''}`}
+                        onClick={() => setExportScale(k)}
+                        role="radio"
+                        aria-checked={exportScale === k}
+                      >
+                        {k}×
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {(exportSizeMode === 'width' || exportSizeMode === 'height') && (
+                  <input type="number" className="text-input" min={1} max={8192} value={exportTarget}
+                    onChange={e => setExportTarget(Math.max(1, Math.min(8192, Math.round(Number(e.target.value)) || 1)))}
+                    aria-label={exportSizeMode === 'width' ? 'Target width in pixels' : 'Target height in pixels'} />
+                )}
+                <span className="control-desc">
+                  {exportSizeMode === 'source' && '与原图同尺寸，所见即所得'}
+                  {exportSizeMode === 'native' && '每个色块一个像素，得到真正的低分辨率像素图'}
+                  {exportSizeMode === 'scale' && '原生网格按整数倍最近邻放大，边缘锐利'}
+                  {(exportSizeMode === 'width' || exportSizeMode === 'height') && '按目标尺寸最近邻缩放，保持宽高比'}
+                  {' · '}{exportDimensions(exportSize, dimensions.w, dimensions.h, pixelSize, layout).join(' × ')} px
+                </span>
               </div>
             </div>
           )}
 
           <div className="sidebar-section export-actions">
             <button className="btn btn-primary" disabled={!fileType || processing} onClick={handleExport} aria-label={processing ? 'Processing...' : 'Export image'}>
-              {processing ? '处理中...' : fileType === 'gif' ? '导出像素 GIF' : '导出 PNG'}
+              {processing ? '处理中...' : fileType === 'gif' ? `导出像素 ${ANIMATION_FORMATS.find(f => f.id === animationFormat)!.name}` : '导出 PNG'}
+            </button>
+            {exportProgress && (
+              <div className="export-progress" role="progressbar" aria-valuemin={0} aria-valuemax={exportProgress.total} aria-valuenow={exportProgress.done}>
+                <div className="export-progress-bar">
+                  <div className="export-progress-fill" style={{ width: `${(exportProgress.done / exportProgress.total) * 100}%` }} />
+                </div>
+                <div className="export-progress-row">
+                  <span className="control-desc">
+                    {exportProgress.phase === 'render'
+                      ? `渲染帧 ${exportProgress.done}/${exportProgress.total}`
+                      : `编码 ${exportProgress.encoding}...`}
+                  </span>
+                  <button className="btn btn-ghost btn-sm" onClick={handleCancelExport} aria-label="Cancel export">取消</button>
+                </div>
+              </div>
+            )}
+            {encodedExport && (
+              <div className="export-ready">
+                <span className="control-desc">{encodedExport.filename} · {formatSize(encodedExport.blob.size)}</span>
+                <div className="palette-editor-actions">
+                  <button className="btn btn-ghost btn-sm" onClick={handleDownloadEncoded} aria-label="Download encoded animation">下载</button>
+                  <button className="btn btn-ghost btn-sm" onClick={() => setEncodedExport(null)} aria-label="Discard encoded animation">放弃</button>
+                </div>
+              </div>
+            )}
+            <button className="btn btn-ghost" disabled={!fileType || processing} onClick={handleExportSvg} aria-label="Export SVG">
+              {fileType === 'gif' ? '导出当前帧 SVG' : '导出 SVG'}
             </button>
+            {shape === 'ascii' && (
+              <button className="btn btn-ghost" disabled={!fileType || processing} onClick={handleExportText} aria-label="Export text">
+                导出文本
+              </button>
+            )}
             {fileType === 'image' && (
               <button className="btn btn-ghost" disabled={!fileType} onClick={handleCopyToClipboard} aria-label="Copy to clipboard">
                 📋 复制到剪贴板
               </button>
             )}
+            {shape === 'ascii' && (
+              <button className="btn btn-ghost" disabled={!fileType} onClick={handleCopyText} aria-label="Copy text to clipboard">
+                📋 复制文本
+              </button>
+            )}
           </div>
 
           <div className="privacy-hint">
@@ -515,13 +2355,14 @@ export default function App() {
   )
 }
 
-function downloadBlob(blob: Blob, filename: string) {
-  const url = URL.createObjectURL(blob)
-  const a = document.createElement('a')
-  a.href = url
-  a.download = filename
-  a.click()
-  URL.revokeObjectURL(url)
+/** Small PNG preview of a GIF frame for the timeline */
+async function frameThumbnail(image: ImageData, height = 40): Promise<Blob> {
+  const width = Math.max(1, Math.round((image.width / image.height) * height))
+  const bitmap = await createImageBitmap(image, { resizeWidth: width, resizeHeight: height, resizeQuality: 'medium' })
+  const canvas = new OffscreenCanvas(width, height)
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return canvas.convertToBlob()
 }
 
 function formatSize(bytes: number): string {
@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { clampView, COMPARE_MODES, FIT_VIEW, MAX_ZOOM, panView, zoomView, type CompareMode, type View } from '../utils/compare'
+import type { CellInfo } from '../utils/inspect'
+import { toHex } from '../utils/paletteFormats'
+import { cellAt, cellPolygon, gridSize, type GridLayout } from '../utils/tiling'
+
+interface CompareViewProps {
+  children: React.ReactNode // the comparison canvas
+  mode: CompareMode
+  onModeChange: (mode: CompareMode) => void
+  opacity: number // onion-skin opacity of the mosaic, percent
+  onOpacityChange: (opacity: number) => void
+  masking: boolean // mask editing: one image, no compare modes
+  geometry: { layout: GridLayout; cellSize: number; width: number; height: number } // one pane, source px
+  inspect: (x: number, y: number) => CellInfo | null // source px
+  onGestureStart: () => void // a second finger turned the drag into a pinch
+}
+
+// Smallest on-screen cell, in CSS px, that gets the block grid overlay
+const MIN_GRID_CELL = 8
+
+interface Tip {
+  x: number // CSS px in the frame
+  y: number
+  info: CellInfo
+}
+
+/**
+ * Zoomable frame around the comparison canvas: wheel/pinch zoom, drag to pan, a block grid overlay
+ * at high zoom and a hover inspector. The canvas keeps its own pointer handlers; a handler that
+ * stops propagation owns the drag (mask painting, the slider), anything else pans.
+ */
+export default function CompareView({
+  children, mode, onModeChange, opacity, onOpacityChange, masking, geometry, inspect, onGestureStart,
+}: CompareViewProps) {
+  const [view, setView] = useState<View>(FIT_VIEW)
+  const [frame, setFrame] = useState({ w: 0, h: 0 })
+  const [showGrid, setShowGrid] = useState(true)
+  const [inspecting, setInspecting] = useState(false)
+  const [tip, setTip] = useState<Tip | null>(null)
+  const [panning, setPanning] = useState(false)
+  const frameRef = useRef<HTMLDivElement>(null)
+  const stageRef = useRef<HTMLDivElement>(null)
+  const overlayRef = useRef<HTMLCanvasElement>(null)
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>()) // frame coordinates
+  const pinchRef = useRef<{ dist: number; x: number; y: number } | null>(null)
+  const panes = !masking && mode === 'side' ? 2 : 1
+  const { layout, cellSize, width, height } = geometry
+
+  // A new image (or pane count) starts fitted
+  useEffect(() => {
+    setView(FIT_VIEW)
+  }, [width, height, panes])
+
+  // Track the frame size; the view is kept inside it
+  useEffect(() => {
+    const el = frameRef.current
+    if (!el) return
+    const observer = new ResizeObserver(() => {
+      const w = el.clientWidth
+      const h = el.clientHeight
+      setFrame({ w, h })
+      setView(v => clampView(v, w, h))
+    })
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [])
+
+  /** Pointer position relative to the frame */
+  const framePoint = (clientX: number, clientY: number) => {
+    const rect = frameRef.current!.getBoundingClientRect()
+    return { x: clientX - rect.left, y: clientY - rect.top }
+  }
+
+  const zoomBy = useCallback((factor: number, x?: number, y?: number) => {
+    const el = frameRef.current
+    if (!el) return
+    const w = el.clientWidth
+    const h = el.clientHeight
+    setView(v => zoomView(v, factor, x ?? w / 2, y ?? h / 2, w, h))
+  }, [])
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const el = frameRef.current
+    if (!el) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const lines = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : e.deltaMode === WheelEvent.DOM_DELTA_PAGE ? 400 : 1
+      const rect = el.getBoundingClientRect()
+      zoomBy(Math.exp(-e.deltaY * lines * 0.002), e.clientX - rect.left, e.clientY - rect.top)
+    }
+    el.addEventListener('wheel', onWheel, { passive: false })
+    return () => el.removeEventListener('wheel', onWheel)
+  }, [zoomBy])
+
+  const pinchState = () => {
+    const [a, b] = [...pointersRef.current.values()]
+    return { dist: Math.hypot(a.x - b.x, a.y - b.y) || 1, x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+  }
+
+  // Capture phase: a second pointer starts a pinch before the canvas can see it
+  const handlePointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.set(e.pointerId, framePoint(e.clientX, e.clientY))
+    if (pointersRef.current.size !== 2) return
+    e.stopPropagation()
+    onGestureStart()
+    setPanning(false)
+    setTip(null)
+    pinchRef.current = pinchState()
+  }
+
+  // Bubble phase: reached only when the canvas left the drag alone
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (pointersRef.current.size !== 1 || view.zoom <= 1) return
+    // Middle-button drags pan too (the way to pan while painting a mask), without autoscroll
+    if (e.button === 1) e.preventDefault()
+    // Keep the capture of a canvas that handles the same pointer too (hold to compare)
+    const target = e.target as Element
+    if (!target.hasPointerCapture(e.pointerId)) e.currentTarget.setPointerCapture(e.pointerId)
+    setPanning(true)
+    setTip(null)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = framePoint(e.clientX, e.clientY)
+    const last = pointersRef.current.get(e.pointerId)
+    if (last) pointersRef.current.set(e.pointerId, point)
+    const { w, h } = frame
+
+    const pinch = pinchRef.current
+    if (pinch && pointersRef.current.size >= 2) {
+      const next = pinchState()
+      setView(v => panView(zoomView(v, next.dist / pinch.dist, next.x, next.y, w, h), next.x - pinch.x, next.y - pinch.y, w, h))
+      pinchRef.current = next
+    } else if (panning && last) {
+      setView(v => panView(v, point.x - last.x, point.y - last.y, w, h))
+    } else if (inspecting && e.buttons === 0) {
+      setTip(inspectAt(e.clientX, e.clientY, point))
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId)
+    if (pointersRef.current.size < 2) pinchRef.current = null
+    if (pointersRef.current.size === 0) setPanning(false)
+  }
+
+  /** Inspector tip for the pointer, or null off the image */
+  const inspectAt = (clientX: number, clientY: number, point: { x: number; y: number }): Tip | null => {
+    const rect = stageRef.current!.getBoundingClientRect()
+    const fx = ((clientX - rect.left) / rect.width) * panes
+    const fy = (clientY - rect.top) / rect.height
+    if (fx < 0 || fx >= panes || fy < 0 || fy >= 1) return null
+    const info = inspect((fx - Math.floor(fx)) * width, fy * height)
+    return info && { ...point, info }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === '+' || e.key === '=') zoomBy(2)
+    else if (e.key === '-') zoomBy(0.5)
+    else if (e.key === '0') setView(FIT_VIEW)
+    else return
+    e.preventDefault()
+  }
+
+  // Block grid overlay: the cell outlines of the visible part, once cells are big enough to tell apart
+  useEffect(() => {
+    const canvas = overlayRef.current
+    if (!canvas) return
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = Math.round(frame.w * dpr)
+    canvas.height = Math.round(frame.h * dpr)
+    const scale = (frame.w / (width * panes)) * view.zoom // CSS px per source px
+    if (!showGrid || !width || !height || cellSize * scale < MIN_GRID_CELL) return
+
+    const ctx = canvas.getContext('2d')!
+    const [cols, rows] = gridSize(layout, width, height, cellSize)
+    const colRow = (x: number, y: number) => {
+      const i = cellAt(layout, x, y, cellSize, cols, rows)
+      return [i % cols, Math.floor(i / cols)]
+    }
+    ctx.strokeStyle = 'rgba(128, 128, 128, 0.7)'
+    ctx.lineWidth = 1 / scale
+    for (let pane = 0; pane < panes; pane++) {
+      // Visible source rect of this pane
+      const x0 = Math.max(0, -view.x / scale - pane * width)
+      const x1 = Math.min(width, (frame.w - view.x) / scale - pane * width)
+      const y0 = Math.max(0, -view.y / scale)
+      const y1 = Math.min(height, (frame.h - view.y) / scale)
+      if (x0 >= x1 || y0 >= y1) continue
+
+      ctx.setTransform(dpr * scale, 0, 0, dpr * scale, dpr * (view.x + pane * width * scale), dpr * view.y)
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(0, 0, width, height)
+      ctx.clip()
+      ctx.beginPath()
+      // Cell indices grow with x and y in every layout; the margin covers offset rows and columns
+      const [c0, r0] = colRow(x0, y0)
+      const [c1, r1] = colRow(x1, y1)
+      for (let row = Math.max(0, r0 - 2); row <= Math.min(rows - 1, r1 + 2); row++) {
+        for (let col = Math.max(0, c0 - 2); col <= Math.min(cols - 1, c1 + 2); col++) {
+          const corners = cellPolygon(layout, col, row, cellSize)
+          ctx.moveTo(corners[0][0], corners[0][1])
+          for (let k = 1; k < corners.length; k++) ctx.lineTo(corners[k][0], corners[k][1])
+          ctx.closePath()
+        }
+      }
+      ctx.stroke()
+      ctx.restore()
+    }
+  }, [view, frame, showGrid, layout, cellSize, width, height, panes])
+
+  const cursor = view.zoom > 1 ? (panning ? 'grabbing' : 'grab') : mode === 'slider' && !masking ? 'col-resize' : mode === 'hold' && !masking ? 'pointer' : 'default'
+  const tipLeft = tip !== null && tip.x > frame.w / 2
+
+  return (
+    <>
+      <div
+        ref={frameRef}
+        className="compare-viewport"
+        style={{ cursor }}
+        role="group"
+        tabIndex={0}
+        aria-label={`Comparison view, zoom ${Math.round(view.zoom * 100)}%: scroll or pinch to zoom, drag to pan, + / - / 0 keys`}
+        onPointerDownCapture={handlePointerDownCapture}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUpCapture={handlePointerUp}
+        onPointerCancelCapture={handlePointerUp}
+        onPointerLeave={() => setTip(null)}
+        onKeyDown={handleKeyDown}
+      >
+        <div
+          ref={stageRef}
+          className={`compare-stage ${view.zoom > 1 ? 'zoomed' : ''}`}
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+        >
+          {children}
+        </div>
+        <canvas ref={overlayRef} className="compare-overlay" aria-hidden="true" />
+        {tip && (
+          <div className="cell-tip" style={{ left: tip.x, top: tip.y, transform: tipLeft ? 'translate(calc(-100% - 16px), 16px)' : 'translate(16px, 16px)' }}>
+            <div className="cell-tip-title">第 {tip.info.row + 1} 行 · 第 {tip.info.col + 1} 列{tip.info.alpha === 0 ? '（透明）' : ''}</div>
+            <div className="cell-tip-row">
+              <span className="cell-tip-swatch" style={{ background: `#${toHex(tip.info.source)}` }} />
+              原色 #{toHex(tip.info.source)}
+            </div>
+            <div className="cell-tip-row">
+              <span className="cell-tip-swatch" style={{ background: `#${toHex(tip.info.color)}` }} />
+              映射 #{toHex(tip.info.color)}
+            </div>
+            <div className="cell-tip-row">
+              <span className="cell-tip-swatch" style={{ background: `#${toHex(tip.info.entry.color)}` }} />
+              {tip.info.nearest ? '最接近 ' : ''}{tip.info.entry.palette} {tip.info.entry.code}{tip.info.entry.name ? ` ${tip.info.entry.name}` : ''}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="compare-toolbar">
+        {!masking && (
+          <div className="mode-tabs" role="radiogroup" aria-label="Comparison mode">
+            {COMPARE_MODES.map(m => (
+              <button key={m.id} className={`mode-tab ${mode === m.id ? 'active' : ''}`} role="radio" aria-checked={mode === m.id} onClick={() => onModeChange(m.id)}>
+                {m.name}
+              </button>
+            ))}
+          </div>
+        )}
+        {!masking && mode === 'onion' && (
+          <label className="compare-opacity">
+            <input type="range" min={0} max={100} value={opacity} onChange={e => onOpacityChange(Number(e.target.value))}
+              aria-label={`Mosaic opacity: ${opacity}%`} />
+            <span className="control-value">{opacity}%</span>
+          </label>
+        )}
+        <div className="compare-zoom">
+          <button className={`btn btn-ghost btn-sm ${showGrid ? 'active' : ''}`} aria-pressed={showGrid} onClick={() => setShowGrid(v => !v)}
+            title="放大后显示块网格" aria-label="Toggle block grid overlay">网格</button>
+          <button className={`btn btn-ghost btn-sm ${inspecting ? 'active' : ''}`} aria-pressed={inspecting} onClick={() => { setInspecting(v => !v); setTip(null) }}
+            title="悬停查看色块的原色、映射色和色号" aria-label="Toggle cell inspector">检查</button>
+          <button className="btn btn-ghost btn-sm" disabled={view.zoom <= 1} onClick={() => zoomBy(0.5)} aria-label="Zoom out">−</button>
+          <span className="control-value">{Math.round(view.zoom * 100)}%</span>
+          <button className="btn btn-ghost btn-sm" disabled={view.zoom >= MAX_ZOOM} onClick={() => zoomBy(2)} aria-label="Zoom in">+</button>
+          <button className="btn btn-ghost btn-sm" disabled={view.zoom <= 1} onClick={() => setView(FIT_VIEW)} aria-label="Fit to view">适应</button>
+        </div>
+      </div>
+    </>
+  )
+}
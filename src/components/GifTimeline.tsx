@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react'
+import { DEFAULT_DELAY, type TimelineFrame } from '../utils/timeline'
+
+interface GifTimelineProps {
+  frames: TimelineFrame[]
+  thumbs: string[] // per decoded frame
+  position: number
+  playing: boolean
+  onSeek: (index: number) => void
+  onTogglePlay: () => void
+  onChange: (frames: TimelineFrame[]) => void
+  onReset: () => void
+}
+
+/** Frame strip under the preview: scrub and step, select a range, trim, delete, duplicate, retime */
+export default function GifTimeline({ frames, thumbs, position, playing, onSeek, onTogglePlay, onChange, onReset }: GifTimelineProps) {
+  // Selected range, inclusive: a click selects one frame, shift-click extends it from the anchor
+  const [anchor, setAnchor] = useState(0)
+  const [focus, setFocus] = useState(0)
+  const stripRef = useRef<HTMLDivElement>(null)
+  const last = frames.length - 1
+  const start = Math.min(anchor, focus, last)
+  const end = Math.min(Math.max(anchor, focus), last)
+  const count = end - start + 1
+  const all = count === frames.length
+
+  // Keep the frame on screen visible while playing or stepping
+  useEffect(() => {
+    stripRef.current?.children[position]?.scrollIntoView({ block: 'nearest', inline: 'nearest' })
+  }, [position])
+
+  const select = (i: number, extend: boolean) => {
+    const index = Math.max(0, Math.min(last, i))
+    if (!extend) setAnchor(index)
+    setFocus(index)
+    onSeek(index)
+  }
+
+  const selectOnly = (i: number) => {
+    setAnchor(i)
+    setFocus(i)
+    onSeek(i)
+  }
+
+  const trim = () => {
+    onChange(frames.slice(start, end + 1))
+    selectOnly(0)
+  }
+
+  const remove = () => {
+    if (all) return
+    onChange([...frames.slice(0, start), ...frames.slice(end + 1)])
+    selectOnly(Math.min(start, last - count))
+  }
+
+  const duplicate = () => {
+    // The copy goes right after the selection and becomes the new selection
+    onChange([...frames.slice(0, end + 1), ...frames.slice(start, end + 1), ...frames.slice(end + 1)])
+    setAnchor(end + 1)
+    setFocus(end + count)
+    onSeek(end + 1)
+  }
+
+  const retime = (delay: number) => {
+    onChange(frames.map((f, i) => (i >= start && i <= end ? { ...f, delay } : f)))
+  }
+
+  return (
+    <div className="timeline">
+      <div className="timeline-controls">
+        <button className="btn btn-ghost btn-sm" disabled={position <= 0} onClick={e => select(position - 1, e.shiftKey)} aria-label="Previous frame">‹</button>
+        <button className="btn btn-ghost btn-sm" disabled={frames.length < 2} onClick={onTogglePlay}
+          aria-label={playing ? 'Pause GIF animation' : 'Play GIF animation'}>
+          {playing ? '⏸ 暂停' : '▶ 播放'}
+        </button>
+        <button className="btn btn-ghost btn-sm" disabled={position >= last} onClick={e => select(position + 1, e.shiftKey)} aria-label="Next frame">›</button>
+        <input type="range" className="timeline-scrubber" min={0} max={last} value={position}
+          onChange={e => select(Number(e.target.value), false)} aria-label={`Frame ${position + 1} of ${frames.length}`} />
+        <span className="control-value">{position + 1}/{frames.length}</span>
+      </div>
+
+      <div className="timeline-strip" ref={stripRef} role="listbox" aria-label="Frames" aria-multiselectable>
+        {frames.map((f, i) => (
+          <button
+            key={i}
+            className={`timeline-frame ${i >= start && i <= end ? 'selected' : ''} ${i === position ? 'current' : ''}`}
+            role="option"
+            aria-selected={i >= start && i <= end}
+            title={`第 ${i + 1} 帧 · ${f.delay || DEFAULT_DELAY}ms`}
+            onClick={e => select(i, e.shiftKey)}
+          >
+            <img src={thumbs[f.source]} alt="" draggable={false} />
+            <span>{i + 1}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="timeline-actions">
+        <span className="control-desc">
+          {count > 1 ? `已选 ${start + 1}–${end + 1}（${count} 帧）` : `第 ${start + 1} 帧 · Shift+点击选择范围`}
+        </span>
+        <label className="timeline-delay">
+          延迟
+          <input type="number" className="text-input" min={0} max={10000} step={10} value={frames[start]?.delay ?? 0}
+            onChange={e => retime(Math.max(0, Math.min(10000, Math.round(Number(e.target.value)) || 0)))}
+            aria-label="Delay of the selected frames in milliseconds" />
+          ms
+        </label>
+        <button className="btn btn-ghost btn-sm" disabled={all} onClick={trim} aria-label="Keep only the selected frames">裁剪到选区</button>
+        <button className="btn btn-ghost btn-sm" disabled={all} onClick={remove} aria-label="Delete the selected frames">删除</button>
+        <button className="btn btn-ghost btn-sm" onClick={duplicate} aria-label="Duplicate the selected frames">复制</button>
+        <button className="btn btn-ghost btn-sm" onClick={() => { onReset(); selectOnly(0) }} aria-label="Restore the original frames">还原</button>
+      </div>
+    </div>
+  )
+}
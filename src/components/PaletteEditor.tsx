@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import type { Palette } from '../utils/mosaic'
+import { PALETTE_FORMATS, exportPalette, fromHex, toHex, type PaletteFormat } from '../utils/paletteFormats'
+import { downloadBlob } from '../utils/download'
+
+interface PaletteEditorProps {
+  palette: Palette
+  onChange: (palette: Palette) => void
+  onDelete: () => void
+  onClose: () => void
+}
+
+/** Inline editor for a user palette: rename, add/remove/reorder/recolor swatches, export */
+export default function PaletteEditor({ palette, onChange, onDelete, onClose }: PaletteEditorProps) {
+  const [selected, setSelected] = useState(0)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const { colors } = palette
+
+  // Thread and part codes (copies of DMC or bead palettes) move with their colors
+  const edit = (change: <T>(list: T[]) => T[]) => onChange({
+    ...palette,
+    colors: change(colors),
+    codes: palette.codes && change(palette.codes),
+    labels: palette.labels && change(palette.labels),
+  })
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= colors.length || from === to) return
+    edit(list => {
+      const next = list.slice()
+      const [c] = next.splice(from, 1)
+      next.splice(to, 0, c)
+      return next
+    })
+    setSelected(to)
+  }
+
+  const recolor = (i: number, hex: string) => {
+    const c = fromHex(hex)
+    if (!c) return
+    onChange({ ...palette, colors: colors.map((old, j) => (j === i ? c : old)) })
+  }
+
+  const add = () => {
+    // New swatch starts as a copy of the selected one, so it is easy to tweak into a neighbouring shade
+    if (colors.length === 0) {
+      onChange({ ...palette, colors: [[128, 128, 128]] })
+      setSelected(0)
+      return
+    }
+    edit(list => {
+      const next = list.slice()
+      const base = next[selected] ?? next[0]
+      next.splice(selected + 1, 0, Array.isArray(base) ? ([...base] as typeof base) : base)
+      return next
+    })
+    setSelected(selected + 1)
+  }
+
+  const remove = () => {
+    if (colors.length <= 1) return
+    edit(list => list.filter((_, j) => j !== selected))
+    setSelected(Math.max(0, selected - 1))
+  }
+
+  const handleExport = (format: PaletteFormat) => {
+    const ext = PALETTE_FORMATS.find(f => f.id === format)!.ext
+    const safeName = palette.name.replace(/[\\/:*?"<>|]+/g, '_') || 'palette'
+    downloadBlob(exportPalette(palette, format), `${safeName}${ext}`)
+  }
+
+  return (
+    <div className="palette-editor">
+      <input
+        className="text-input"
+        value={palette.name}
+        onChange={e => onChange({ ...palette, name: e.target.value })}
+        aria-label="Palette name"
+        placeholder="调色板名称"
+      />
+
+      <div className="palette-editor-swatches" role="listbox" aria-label="Palette colors">
+        {colors.map((c, i) => (
+          <label
+            key={i}
+            className={`palette-editor-swatch ${selected === i ? 'active' : ''} ${dragIndex === i ? 'dragging' : ''}`}
+            style={{ background: `rgb(${c[0]},${c[1]},${c[2]})` }}
+            title={`#${toHex(c)}`}
+            role="option"
+            aria-selected={selected === i}
+            draggable
+            onClick={() => setSelected(i)}
+            onDragStart={() => setDragIndex(i)}
+            onDragOver={e => e.preventDefault()}
+            onDrop={e => {
+              e.preventDefault()
+              if (dragIndex !== null) move(dragIndex, i)
+              setDragIndex(null)
+            }}
+            onDragEnd={() => setDragIndex(null)}
+          >
+            <input
+              type="color"
+              value={`#${toHex(c)}`}
+              onChange={e => recolor(i, e.target.value)}
+              aria-label={`Color ${i + 1}: #${toHex(c)}`}
+            />
+          </label>
+        ))}
+        <button className="palette-editor-add" onClick={add} aria-label="Add color" title="添加颜色">+</button>
+      </div>
+
+      <div className="palette-editor-row">
+        <span className="control-value">{colors.length > 0 ? `#${toHex(colors[selected] ?? colors[0])}` : '—'}</span>
+        <div className="palette-editor-actions">
+          <button className="btn btn-ghost btn-sm" onClick={() => move(selected, selected - 1)} disabled={selected === 0} aria-label="Move color left">←</button>
+          <button className="btn btn-ghost btn-sm" onClick={() => move(selected, selected + 1)} disabled={selected >= colors.length - 1} aria-label="Move color right">→</button>
+          <button className="btn btn-ghost btn-sm" onClick={remove} disabled={colors.length <= 1} aria-label="Remove color">删除</button>
+        </div>
+      </div>
+
+      <div className="palette-editor-row">
+        <span className="control-desc">导出</span>
+        <div className="palette-editor-actions">
+          {PALETTE_FORMATS.map(f => (
+            <button key={f.id} className="btn btn-ghost btn-sm" onClick={() => handleExport(f.id)} title={f.ext}>
+              {f.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="palette-editor-row">
+        <button className="btn btn-ghost btn-sm btn-danger" onClick={onDelete}>删除调色板</button>
+        <button className="btn btn-primary btn-sm" onClick={onClose}>完成</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+/**
+ * Headless entry point
+ * The canvas-free part of the engine: grid computation, palettes and pure renderers.
+ * Safe to import from Node, workers and build scripts.
+ */
+
+export {
+  computeGrid,
+  matchGridToPalette,
+  DEFAULT_OPTIONS,
+  PALETTES,
+  SHAPES,
+  BACKGROUNDS,
+  ALPHA_MODES,
+  type AlphaMode,
+  type BackgroundMode,
+  type ColorMode,
+  type MosaicGrid,
+  type MosaicOptions,
+  type Palette,
+  type PixelShape,
+  type RawImage,
+  type RenderStyle,
+} from './utils/mosaic'
+export { DITHERS, type DitherMode } from './utils/dither'
+export { SAMPLINGS, type SamplingMode } from './utils/sampling'
+export { makeTile, assignTiles, TILE_MATCHES, TILE_SIZE, type PhotoTile, type TileMatch } from './utils/photoMosaic'
+export { adjustImage, NO_ADJUSTMENTS, type Adjustments } from './utils/adjustments'
+export { GRID_LAYOUTS, gridSize, cellAt, cellCenter, cellNeighbors, cellPolygon, type GridLayout } from './utils/tiling'
+export { findOutline, OUTLINE_MODES, type OutlineMode } from './utils/outline'
+export { DEFAULT_SETTINGS, parseSettings, settingsFromHash, settingsToHash, presetsFromJson, presetsToJson, type MosaicSettings, type Preset } from './utils/settings'
+export { COLOR_METRICS, paletteMatcher, type ColorMetric } from './utils/color'
+export { extractPalette, EXTRACT_METHODS, type ExtractMethod } from './utils/adaptive'
+export { DMC_PALETTE } from './utils/dmc'
+export { inspectCell, type CellInfo } from './utils/inspect'
+export { PERLER_PALETTE, HAMA_PALETTE, LEGO_PALETTE } from './utils/beads'
+export {
+  buildPlan, planToCsv, BOARD_SIZES, BUILD_PALETTES,
+  type BuildPlan, type Board, type BoardSize, type PartCount,
+} from './utils/buildPlan'
+export {
+  buildPattern, finishedSize, FABRIC_COUNTS,
+  type CrossStitchPattern, type PatternThread, type FabricCount,
+} from './utils/crossStitch'
+export {
+  parseGpl, serializeGpl,
+  parseHex, serializeHex,
+  parsePal, serializePal,
+  parseAse, serializeAse,
+} from './utils/paletteFormats'
+export { decodeGif, encodeGif, type DecodedGif } from './utils/gif'
+export {
+  initialTimeline, playbackSequence, LOOP_MODES,
+  type TimelineFrame, type SequenceFrame, type LoopMode,
+} from './utils/timeline'
+export { encodeApng } from './utils/apng'
+export { createZip, type ZipEntry } from './utils/zip'
+export { formatBatchName, uniqueNames, DEFAULT_NAME_PATTERN } from './utils/batch'
+export { encodeWebp } from './utils/webp'
+export { encodeAnimation, ANIMATION_FORMATS, type AnimationFormat } from './utils/animation'
+export {
+  buildSpriteSheet, SPRITE_LAYOUTS,
+  type SpriteLayout, type SpriteSheet, type SpriteManifest, type SpriteFrame,
+} from './utils/spriteSheet'
+export { prepareMask, blendMasked } from './utils/mask'
+export { renderGridToRGBA } from './renderers/raster'
+export { renderGridToSvg } from './renderers/svg'
+export { renderGridToText, TEXT_FORMATS, GLYPH_ASPECT, type TextFormat } from './renderers/text'
+export { renderPatternSvg, renderPatternPdf, patternSummary } from './renderers/chart'
+export { renderPlanPdf } from './renderers/boards'
@@ -0,0 +1,340 @@
+/**
+ * mosaic — command line pixel art converter
+ *
+ *   mosaic input.png -o out.png --size 8 --palette "Game Boy" --shape circle
+ */
+
+import { parseArgs } from 'node:util'
+import { existsSync } from 'node:fs'
+import { writeFile } from 'node:fs/promises'
+import { basename, extname } from 'node:path'
+import { BACKGROUNDS, computeGrid, PALETTES, SHAPES, type BackgroundMode, type ColorMode, type MosaicOptions, type Palette, type PixelShape, type RawImage } from '../utils/mosaic'
+import { DITHERS, type DitherMode } from '../utils/dither'
+import { SAMPLINGS, type SamplingMode } from '../utils/sampling'
+import { COLOR_METRICS, type ColorMetric } from '../utils/color'
+import { extractPalette, EXTRACT_METHODS, type ExtractMethod } from '../utils/adaptive'
+import { fromHex } from '../utils/paletteFormats'
+import { renderGridToSvg } from '../renderers/svg'
+import { renderGridToText } from '../renderers/text'
+import { renderPatternPdf } from '../renderers/chart'
+import { buildPattern, FABRIC_COUNTS, type FabricCount } from '../utils/crossStitch'
+import { buildSpriteSheet, SPRITE_LAYOUTS, type SpriteLayout } from '../utils/spriteSheet'
+import type { AnimationFormat } from '../utils/animation'
+import { renderGridAtSize, SOURCE_SIZE, type ExportSize } from '../utils/exportSize'
+import { GRID_LAYOUTS, type GridLayout } from '../utils/tiling'
+import { TILE_MATCHES, type TileMatch } from '../utils/photoMosaic'
+import { adjustImage, type Adjustments } from '../utils/adjustments'
+import { OUTLINE_MODES, type OutlineMode } from '../utils/outline'
+import { initialTimeline, LOOP_MODES, playbackSequence, type LoopMode } from '../utils/timeline'
+import { readImage, readPaletteFile, readTileLibrary, writeAnimation, writePng } from './io'
+
+const COLOR_MODES: ColorMode[] = ['grayscale', 'color', 'palette', 'adaptive']
+
+const ANIMATED_OUTPUTS: Record<string, AnimationFormat> = { '.gif': 'gif', '.apng': 'apng', '.webp': 'webp' }
+
+const HELP = `Usage: mosaic <input.png|input.gif> -o <output.png|.gif|.apng|.webp|.svg|.txt|.html|.pdf> [options]
+
+Options:
+  -o, --output <file>         Output file: .png, .gif/.apng/.webp (animated), .svg, .txt/.html (ASCII text)
+                              or .pdf (cross-stitch chart with DMC thread legend)
+  -s, --size <px>             Block size in pixels (default 8)
+      --shape <shape>         ${SHAPES.map(s => s.id).join(' | ')} (default square)
+      --layout <layout>       ${GRID_LAYOUTS.map(l => l.id).join(' | ')} (default square)
+      --tiles <dir>           Folder of .png/.gif tile images for photo mosaics (implies --shape photo)
+      --tile-match <mode>     ${TILE_MATCHES.map(m => m.id).join(' | ')}: match tiles by average or 2×2 sub-block color (default quad)
+      --tile-reuse <n>        Use each tile at most n times, 0 = unlimited (default 0)
+      --tile-tint <n>         Shift tiles toward the cell color, 0-1 (default 0)
+  -m, --mode <mode>           ${COLOR_MODES.join(' | ')} (default grayscale)
+  -l, --levels <n>            Gray/color levels, 2-8 (default 4)
+  -p, --palette <name|file>   Built-in palette name or .gpl/.hex/.pal/.ase file (implies --mode palette)
+      --colors <n>            Adaptive palette size (default 16)
+      --extract <method>      ${EXTRACT_METHODS.map(m => m.id).join(' | ')} (default median-cut)
+      --metric <metric>       ${COLOR_METRICS.map(m => m.id).join(' | ')} (default rgb)
+      --sampling <mode>       ${SAMPLINGS.map(m => m.id).join(' | ')} (default center)
+      --dither <mode>         ${DITHERS.map(d => d.id).join(' | ')} (default none)
+      --dither-strength <n>   0-1 (default 1)
+      --background <bg>       ${BACKGROUNDS.map(b => b.id).join(' | ')} or a #rrggbb color (default auto)
+      --alpha-threshold <n>   Opaque share below which a block counts as transparent, 0-1 (default 0.5)
+      --keep-alpha            Draw transparent blocks at their mean alpha instead of skipping them
+      --brightness <n>        Source brightness, -1-1 (default 0)
+      --contrast <n>          Source contrast, -1-1 (default 0)
+      --gamma <n>             Source gamma, 0.2-5, above 1 brightens midtones (default 1)
+      --saturation <n>        Source saturation, -1-1, -1 = grayscale (default 0)
+      --hue <deg>             Source hue shift, -180-180 (default 0)
+      --posterize <n>         Levels per channel before sampling, 2-256, 0 = off (default 0)
+      --sharpen <n>           Unsharp-mask amount, 0-2 (default 0)
+      --sharpen-radius <px>   Unsharp-mask radius (default 2)
+      --invert                Invert the source colors
+      --outline <mode>        ${OUTLINE_MODES.map(m => m.id).join(' | ')}: 1-cell pixel-art outlines (default none)
+      --outline-threshold <n> Edge strength or color difference that gets an outline, 0-1 (default 0.25)
+      --outline-color <color> "darken" (darkened cell color) or a #rrggbb color (default darken)
+      --grid-lines <px>       Grid line thickness, 0 = off (default 0)
+      --grid-color <color>    Grid line #rrggbb color (default #000000)
+      --native                One output pixel per block (the true low-res sprite)
+      --scale <n>             Integer nearest-neighbour upscale of the native sprite
+      --width <px>            Scale the native sprite to this width (keeps aspect)
+      --height <px>           Scale the native sprite to this height (keeps aspect)
+                              Size flags apply to .png/.gif/.apng/.webp outputs; default is source size
+      --frames <a-b>          Keep only frames a to b of an animation (1-based, inclusive; "a" keeps one)
+      --speed <n>             Animation speed multiplier, 0.1-10 (default 1)
+      --loop-mode <mode>      ${LOOP_MODES.map(m => m.id).join(' | ')} (default forward)
+      --sprite-sheet <layout> Write all frames into one .png atlas plus a .json frame manifest:
+                              ${SPRITE_LAYOUTS.map(l => l.id).join(' | ')}
+      --fabric <ct>           Cross-stitch fabric count for .pdf charts: ${FABRIC_COUNTS.join(' | ')} (default 14)
+  -h, --help                  Show this help
+
+Built-in palettes: ${PALETTES.map(p => `"${p.name}"`).join(', ')}`
+
+class UsageError extends Error {}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[], fallback: T): T {
+  if (value === undefined) return fallback
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`Invalid --${flag} "${value}". Expected one of: ${allowed.join(', ')}`)
+  }
+  return value as T
+}
+
+function numberIn(flag: string, value: string | undefined, min: number, max: number, fallback: number): number {
+  if (value === undefined) return fallback
+  const n = Number(value)
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new UsageError(`Invalid --${flag} "${value}". Expected a number from ${min} to ${max}`)
+  }
+  return n
+}
+
+/** 0-based inclusive frame range from a 1-based "a-b" or "a" flag */
+function frameRange(value: string, count: number): [number, number] {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(value.trim())
+  const first = match ? Number(match[1]) : NaN
+  const last = match?.[2] !== undefined ? Number(match[2]) : first
+  if (!(first >= 1 && last >= first && last <= count)) {
+    throw new UsageError(`Invalid --frames "${value}". Expected a range within 1-${count}, like 2-${count}`)
+  }
+  return [first - 1, last - 1]
+}
+
+function exportSize(values: { native?: boolean; scale?: string; width?: string; height?: string }): ExportSize {
+  const given = [values.native, values.scale, values.width, values.height].filter(v => v !== undefined)
+  if (given.length > 1) throw new UsageError('Use only one of --native, --scale, --width and --height')
+  if (values.native) return { ...SOURCE_SIZE, mode: 'native' }
+  if (values.scale !== undefined) {
+    return { ...SOURCE_SIZE, mode: 'scale', scale: Math.round(numberIn('scale', values.scale, 1, 64, 1)) }
+  }
+  if (values.width !== undefined) {
+    return { ...SOURCE_SIZE, mode: 'width', target: Math.round(numberIn('width', values.width, 1, 16384, 1)) }
+  }
+  if (values.height !== undefined) {
+    return { ...SOURCE_SIZE, mode: 'height', target: Math.round(numberIn('height', values.height, 1, 16384, 1)) }
+  }
+  return SOURCE_SIZE
+}
+
+async function resolvePalette(value: string): Promise<Palette> {
+  const builtIn = PALETTES.find(p => p.name.toLowerCase() === value.toLowerCase())
+  if (builtIn) return builtIn
+  if (existsSync(value)) return readPaletteFile(value)
+  throw new UsageError(`Unknown palette "${value}". Use a built-in name or a palette file path`)
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      size: { type: 'string', short: 's' },
+      shape: { type: 'string' },
+      layout: { type: 'string' },
+      tiles: { type: 'string' },
+      'tile-match': { type: 'string' },
+      'tile-reuse': { type: 'string' },
+      'tile-tint': { type: 'string' },
+      mode: { type: 'string', short: 'm' },
+      levels: { type: 'string', short: 'l' },
+      palette: { type: 'string', short: 'p' },
+      colors: { type: 'string' },
+      extract: { type: 'string' },
+      metric: { type: 'string' },
+      sampling: { type: 'string' },
+      dither: { type: 'string' },
+      'dither-strength': { type: 'string' },
+      background: { type: 'string' },
+      'alpha-threshold': { type: 'string' },
+      'keep-alpha': { type: 'boolean' },
+      brightness: { type: 'string' },
+      contrast: { type: 'string' },
+      gamma: { type: 'string' },
+      saturation: { type: 'string' },
+      hue: { type: 'string' },
+      posterize: { type: 'string' },
+      sharpen: { type: 'string' },
+      'sharpen-radius': { type: 'string' },
+      invert: { type: 'boolean' },
+      outline: { type: 'string' },
+      'outline-threshold': { type: 'string' },
+      'outline-color': { type: 'string' },
+      'grid-lines': { type: 'string' },
+      'grid-color': { type: 'string' },
+      native: { type: 'boolean' },
+      scale: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      frames: { type: 'string' },
+      speed: { type: 'string' },
+      'loop-mode': { type: 'string' },
+      'sprite-sheet': { type: 'string' },
+      fabric: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.log(HELP)
+    return 0
+  }
+  const [input] = positionals
+  if (!input || !values.output) throw new UsageError('An input file and -o <output> are required')
+
+  const outExt = extname(values.output).toLowerCase()
+  if (!['.png', '.gif', '.apng', '.webp', '.svg', '.txt', '.html', '.pdf'].includes(outExt)) {
+    throw new UsageError('Output must be a .png, .gif, .apng, .webp, .svg, .txt, .html or .pdf file')
+  }
+  const spriteLayout = values['sprite-sheet'] === undefined
+    ? undefined
+    : oneOf<SpriteLayout>('sprite-sheet', values['sprite-sheet'], SPRITE_LAYOUTS.map(l => l.id), 'grid')
+  if (spriteLayout && outExt !== '.png') throw new UsageError('--sprite-sheet needs a .png output')
+  const size = exportSize(values)
+  const speed = numberIn('speed', values.speed, 0.1, 10, 1)
+  const loopMode = oneOf<LoopMode>('loop-mode', values['loop-mode'], LOOP_MODES.map(m => m.id), 'forward')
+  const fabric = oneOf('fabric', values.fabric, FABRIC_COUNTS.map(String), '14')
+  const layout = oneOf<GridLayout>('layout', values.layout, GRID_LAYOUTS.map(l => l.id), 'square')
+  if (layout !== 'square' && outExt === '.pdf') throw new UsageError('Cross-stitch charts need --layout square')
+
+  // A color implies a solid background
+  const backgroundColor = values.background ? fromHex(values.background) : null
+  const background = backgroundColor
+    ? 'solid'
+    : oneOf<BackgroundMode>('background', values.background, BACKGROUNDS.map(b => b.id), 'auto')
+  if (background === 'solid' && !backgroundColor) {
+    throw new UsageError('Use --background "#rrggbb" to pick the solid background color')
+  }
+
+  const posterize = Math.round(numberIn('posterize', values.posterize, 0, 256, 0))
+  if (posterize === 1) throw new UsageError('--posterize needs at least 2 levels, or 0 for off')
+  const adjustments: Adjustments = {
+    brightness: numberIn('brightness', values.brightness, -1, 1, 0),
+    contrast: numberIn('contrast', values.contrast, -1, 1, 0),
+    gamma: numberIn('gamma', values.gamma, 0.2, 5, 1),
+    saturation: numberIn('saturation', values.saturation, -1, 1, 0),
+    hue: numberIn('hue', values.hue, -180, 180, 0),
+    posterize,
+    sharpen: numberIn('sharpen', values.sharpen, 0, 2, 0),
+    sharpenRadius: numberIn('sharpen-radius', values['sharpen-radius'], 1, 64, 2),
+    invert: values.invert ?? false,
+  }
+
+  const outlineFlag = values['outline-color'] ?? 'darken'
+  const outlineColor = outlineFlag === 'darken' ? null : fromHex(outlineFlag)
+  if (outlineFlag !== 'darken' && !outlineColor) throw new UsageError('Use --outline-color darken or a "#rrggbb" color')
+  const gridColor = fromHex(values['grid-color'] ?? '#000000')
+  if (!gridColor) throw new UsageError('Use --grid-color "#rrggbb" to pick the grid line color')
+
+  const colorMode = oneOf('mode', values.mode, COLOR_MODES, values.palette ? 'palette' : 'grayscale')
+  const options: MosaicOptions = {
+    pixelSize: Math.round(numberIn('size', values.size, 1, 512, 8)),
+    layout,
+    adjustments,
+    colorMode,
+    levels: Math.round(numberIn('levels', values.levels, 2, 8, 4)),
+    shape: oneOf<PixelShape>('shape', values.shape, SHAPES.map(s => s.id), values.tiles ? 'photo' : 'square'),
+    colorMetric: oneOf<ColorMetric>('metric', values.metric, COLOR_METRICS.map(m => m.id), 'rgb'),
+    sampling: oneOf<SamplingMode>('sampling', values.sampling, SAMPLINGS.map(m => m.id), 'center'),
+    dither: oneOf<DitherMode>('dither', values.dither, DITHERS.map(d => d.id), 'none'),
+    ditherStrength: numberIn('dither-strength', values['dither-strength'], 0, 1, 1),
+    background,
+    backgroundColor: backgroundColor ?? [0, 0, 0],
+    alphaThreshold: numberIn('alpha-threshold', values['alpha-threshold'], 0, 1, 0.5),
+    alphaMode: values['keep-alpha'] ? 'keep' : 'skip',
+    tileMatch: oneOf<TileMatch>('tile-match', values['tile-match'], TILE_MATCHES.map(m => m.id), 'quad'),
+    tileReuse: Math.round(numberIn('tile-reuse', values['tile-reuse'], 0, 1e6, 0)),
+    tileTint: numberIn('tile-tint', values['tile-tint'], 0, 1, 0),
+    outline: oneOf<OutlineMode>('outline', values.outline, OUTLINE_MODES.map(m => m.id), 'none'),
+    outlineThreshold: numberIn('outline-threshold', values['outline-threshold'], 0, 1, 0.25),
+    outlineColor,
+    gridLines: numberIn('grid-lines', values['grid-lines'], 0, 64, 0),
+    gridColor,
+  }
+  if (options.shape === 'photo' && !values.tiles) throw new UsageError('--shape photo needs --tiles <dir>')
+
+  const source = await readImage(input)
+  if (values.tiles) options.tiles = await readTileLibrary(values.tiles)
+
+  if (colorMode === 'palette') {
+    options.palette = await resolvePalette(values.palette ?? PALETTES[0].name)
+  } else if (colorMode === 'adaptive') {
+    const count = Math.round(numberIn('colors', values.colors, 2, 256, 16))
+    const method = oneOf<ExtractMethod>('extract', values.extract, EXTRACT_METHODS.map(m => m.id), 'median-cut')
+    options.palette = extractPalette(source.frames.map(f => adjustImage(f.image, adjustments)), count, method)
+  }
+
+  if (outExt !== '.png' && !ANIMATED_OUTPUTS[outExt]) {
+    if (source.animated) console.warn(`Note: ${outExt.slice(1).toUpperCase()} output keeps only the first frame`)
+    const grid = computeGrid(source.frames[0].image, options)
+    const out = outExt === '.svg' ? renderGridToSvg(grid, options)
+      : outExt === '.pdf' ? renderPatternPdf(buildPattern(grid), Number(fabric) as FabricCount)
+      : renderGridToText(grid, outExt === '.txt' ? 'txt' : 'html')
+    await writeFile(values.output, out)
+    console.log(`${input} → ${values.output} (${source.width}×${source.height})`)
+    return 0
+  }
+
+  // Timeline edits: each kept source frame renders once, however often the loop mode plays it
+  let timeline = initialTimeline(source.frames)
+  if (values.frames !== undefined) {
+    const [first, last] = frameRange(values.frames, timeline.length)
+    timeline = timeline.slice(first, last + 1)
+  }
+  // A plain PNG holds one picture, so only the first frame of the sequence is rendered
+  const sequence = playbackSequence(timeline, speed, loopMode)
+  const still = !ANIMATED_OUTPUTS[outExt] && !spriteLayout
+  const rendered = new Map<number, RawImage>()
+  const frames = (still ? sequence.slice(0, 1) : sequence).map(({ source: i, delay }) => {
+    if (!rendered.has(i)) rendered.set(i, renderGridAtSize(computeGrid(source.frames[i].image, options), options, size))
+    return { image: rendered.get(i)!, delay }
+  })
+
+  if (ANIMATED_OUTPUTS[outExt]) {
+    await writeAnimation(values.output, ANIMATED_OUTPUTS[outExt], frames, source.animated ? source.loopCount : 0, options.palette)
+  } else if (spriteLayout) {
+    const manifestPath = values.output.slice(0, -outExt.length) + '.json'
+    const name = basename(input, extname(input))
+    const sheet = buildSpriteSheet(frames, spriteLayout, name, basename(values.output))
+    await writePng(values.output, sheet.image)
+    await writeFile(manifestPath, JSON.stringify(sheet.manifest, null, 2) + '\n')
+    console.log(`Frame manifest → ${manifestPath}`)
+  } else {
+    if (source.animated) {
+      console.warn('Note: PNG output keeps only the first frame; use .gif/.apng/.webp or --sprite-sheet for animation')
+    }
+    await writePng(values.output, frames[0].image)
+  }
+
+  console.log(`${input} → ${values.output} (${frames[0].image.width}×${frames[0].image.height}, ${frames.length} frame${frames.length > 1 ? 's' : ''})`)
+  return 0
+}
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code },
+  (err: unknown) => {
+    if (err instanceof UsageError || (err instanceof TypeError && 'code' in err)) {
+      // UsageError, or parseArgs rejecting an unknown/malformed flag
+      console.error(`mosaic: ${err.message}\n\nRun "mosaic --help" for usage.`)
+      process.exitCode = 2
+    } else {
+      console.error(`mosaic: ${err instanceof Error ? err.message : String(err)}`)
+      process.exitCode = 1
+    }
+  }
+)
@@ -0,0 +1,85 @@
+/**
+ * Node file I/O for the CLI
+ * PNG via pngjs, GIF via omggif, animations via the shared encoders, palettes via the shared format parsers,
+ * photo mosaic tiles from a folder of images
+ */
+
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import { basename, extname, join } from 'node:path'
+import { PNG } from 'pngjs'
+import { decodeGif } from '../utils/gif'
+import { encodeAnimation, type AnimationFormat } from '../utils/animation'
+import type { Palette, RawImage } from '../utils/mosaic'
+import { parseAse, parseGpl, parseHex, parsePal } from '../utils/paletteFormats'
+import { makeTile, type PhotoTile } from '../utils/photoMosaic'
+
+export interface LoadedImage {
+  width: number
+  height: number
+  frames: { image: RawImage; delay: number }[]
+  animated: boolean
+  loopCount: number | null // see DecodedGif
+}
+
+export async function readImage(path: string): Promise<LoadedImage> {
+  const buffer = await readFile(path)
+  const ext = extname(path).toLowerCase()
+
+  if (ext === '.png') {
+    const png = PNG.sync.read(buffer)
+    const image = { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height }
+    return { width: png.width, height: png.height, frames: [{ image, delay: 0 }], animated: false, loopCount: null }
+  }
+  if (ext === '.gif') {
+    const gif = decodeGif(new Uint8Array(buffer))
+    return { ...gif, animated: gif.frames.length > 1 }
+  }
+  throw new Error(`Unsupported input format "${ext}" (expected .png or .gif)`)
+}
+
+export async function writePng(path: string, image: RawImage): Promise<void> {
+  const png = new PNG({ width: image.width, height: image.height })
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength)
+  await writeFile(path, PNG.sync.write(png))
+}
+
+export async function writeAnimation(
+  path: string,
+  format: AnimationFormat,
+  frames: { image: RawImage; delay: number }[],
+  loopCount: number | null = 0,
+  palette?: Palette
+): Promise<void> {
+  const { width, height } = frames[0].image
+  const blob = await encodeAnimation(format, frames.map(f => ({ imageData: f.image, delay: f.delay })), width, height, loopCount, palette)
+  await writeFile(path, new Uint8Array(await blob.arrayBuffer()))
+}
+
+export async function readPaletteFile(path: string): Promise<Palette> {
+  const ext = extname(path).toLowerCase()
+  const name = basename(path, ext)
+  if (ext === '.ase') {
+    const buffer = await readFile(path)
+    return parseAse(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength), name)
+  }
+  const text = await readFile(path, 'utf8')
+  switch (ext) {
+    case '.gpl': return parseGpl(text, name)
+    case '.pal': return parsePal(text, name)
+    case '.hex':
+    case '.txt': return parseHex(text, name)
+  }
+  throw new Error(`Unsupported palette format "${ext}" (expected .gpl, .hex, .pal or .ase)`)
+}
+
+/** Every .png and .gif in a folder (first frame of GIFs) as photo mosaic tiles */
+export async function readTileLibrary(dir: string): Promise<PhotoTile[]> {
+  const files = (await readdir(dir)).filter(f => ['.png', '.gif'].includes(extname(f).toLowerCase())).sort()
+  if (!files.length) throw new Error(`No .png or .gif tiles in "${dir}"`)
+  const tiles: PhotoTile[] = []
+  for (const file of files) {
+    const { frames } = await readImage(join(dir, file))
+    tiles.push(makeTile(basename(file, extname(file)), frames[0].image))
+  }
+  return tiles
+}
@@ -0,0 +1,146 @@
+/**
+ * Build plan renderer
+ * Printable PDF: an overview of all boards, one page per board with part codes in every cell,
+ * and the bill of materials
+ */
+
+import type { BuildPlan, PartCount } from '../utils/buildPlan'
+import { A4, buildPdf, PdfPage } from '../utils/pdf'
+import { contrastColor } from './common'
+
+type RGB = [number, number, number]
+
+const MARGIN = 36
+const HEADER = 24
+const AXIS = 16
+const MAJOR = 5 // cells between bold lines, for counting pegs
+const GRID_MINOR: RGB = [170, 170, 170]
+const GRID_MAJOR: RGB = [0, 0, 0]
+const ROW = 14
+
+export function renderPlanPdf(plan: BuildPlan): Uint8Array<ArrayBuffer> {
+  const { cols, rows, cells, palette, boards, boardSize, boardCols, boardRows } = plan
+  const contentW = A4[0] - 2 * MARGIN
+  const contentH = A4[1] - 2 * MARGIN - HEADER
+  const bomPerPage = Math.floor((contentH - 40) / ROW)
+  const totalPages = 1 + boards.length + Math.max(1, Math.ceil(plan.parts.length / bomPerPage))
+  const pages: PdfPage[] = []
+  // Standard PDF fonts only cover Latin-1, so keep the Latin part of names like "Perler 拼豆"
+  const title = palette.name.replace(/[^\x20-\x7e]/g, '').trim() || 'Build'
+
+  const newPage = (heading: string) => {
+    const page = new PdfPage(A4[0], A4[1])
+    page.fillColor([0, 0, 0])
+    page.text(MARGIN, MARGIN + 12, 12, heading, 'sans-bold')
+    page.text(A4[0] - MARGIN - 60, MARGIN + 12, 9, `Page ${pages.length + 1} / ${totalPages}`)
+    pages.push(page)
+    return page
+  }
+
+  // Overview: the whole picture with board boundaries and labels
+  {
+    const page = newPage(`${title} plan - overview`)
+    page.text(MARGIN, MARGIN + 30, 9,
+      `${cols} x ${rows} cells, ${boardCols} x ${boardRows} boards of ${boardSize} x ${boardSize}, ` +
+      `${plan.parts.length} colors, ${cols * rows} pieces`)
+    const cell = Math.min(contentW / cols, (contentH - 40) / rows, 12)
+    const ox = MARGIN
+    const oy = MARGIN + HEADER + 24
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        page.fillColor(palette.colors[cells[row * cols + col]])
+        page.fillRect(ox + col * cell, oy + row * cell, cell, cell)
+      }
+    }
+    page.strokeColor([255, 0, 80], 1.5)
+    for (const b of boards) {
+      page.strokeRect(ox + b.x * cell, oy + b.y * cell, b.w * cell, b.h * cell)
+      const labelSize = Math.min(14, b.w * cell * 0.3)
+      page.fillColor([255, 255, 255])
+      page.fillRect(ox + b.x * cell + 2, oy + b.y * cell + 2, b.label.length * labelSize * 0.6 + 4, labelSize + 3)
+      page.fillColor([0, 0, 0])
+      page.text(ox + b.x * cell + 4, oy + b.y * cell + labelSize + 2, labelSize, b.label, 'mono-bold')
+    }
+  }
+
+  // One page per board, cells labelled with part codes
+  for (const board of boards) {
+    const page = newPage(`Board ${board.label} - columns ${board.x + 1}-${board.x + board.w}, rows ${board.y + 1}-${board.y + board.h}`)
+    const cell = Math.min(16, Math.floor((contentW - AXIS) / boardSize))
+    const gx = MARGIN + AXIS
+    const gy = MARGIN + HEADER + AXIS
+
+    // Outline of the full board, so partial edge boards show where the design sits
+    page.strokeColor(GRID_MINOR, 0.5)
+    page.strokeRect(gx, gy, boardSize * cell, boardSize * cell)
+
+    for (let r = 0; r < board.h; r++) {
+      for (let c = 0; c < board.w; c++) {
+        const idx = cells[(board.y + r) * cols + board.x + c]
+        const color = palette.colors[idx]
+        const code = palette.codes?.[idx] ?? String(idx + 1)
+        const x = gx + c * cell
+        const y = gy + r * cell
+        page.fillColor(color)
+        page.fillRect(x, y, cell, cell)
+        // Courier advance is 0.6em; shrink long codes to fit the cell
+        const size = Math.min(cell * 0.5, (cell * 0.9) / (code.length * 0.6))
+        page.fillColor(contrastColor(color))
+        page.text(x + cell / 2, y + cell / 2 + size * 0.35, size, code, 'mono-bold', 'center')
+      }
+    }
+
+    page.fillColor([68, 68, 68])
+    for (let c = 0; c <= board.w; c++) {
+      page.strokeColor(c % MAJOR === 0 ? GRID_MAJOR : GRID_MINOR, c % MAJOR === 0 ? 0.8 : 0.3)
+      page.line(gx + c * cell, gy, gx + c * cell, gy + board.h * cell)
+      if (c % MAJOR === 0 && c > 0) page.text(gx + c * cell, gy - 4, 6, String(c), 'sans', 'center')
+    }
+    for (let r = 0; r <= board.h; r++) {
+      page.strokeColor(r % MAJOR === 0 ? GRID_MAJOR : GRID_MINOR, r % MAJOR === 0 ? 0.8 : 0.3)
+      page.line(gx, gy + r * cell, gx + board.w * cell, gy + r * cell)
+      if (r % MAJOR === 0 && r > 0) page.text(gx - 2 - String(r).length * 3.4, gy + r * cell + 2, 6, String(r))
+    }
+
+    // Parts for this board, in three columns under the grid
+    const listY = gy + boardSize * cell + 24
+    page.fillColor([0, 0, 0])
+    page.text(MARGIN, listY - 8, 9, `Parts for board ${board.label} (${board.w * board.h} pieces)`, 'sans-bold')
+    const perColumn = Math.ceil(board.parts.length / 3)
+    board.parts.forEach((part, i) => {
+      partRow(page, MARGIN + Math.floor(i / perColumn) * (contentW / 3), listY + (i % perColumn) * ROW, part, false)
+    })
+  }
+
+  // Bill of materials for the whole build
+  for (let start = 0; start === 0 || start < plan.parts.length; start += bomPerPage) {
+    const page = newPage('Bill of materials')
+    page.text(MARGIN, MARGIN + 30, 9, `${cols * rows} pieces in ${plan.parts.length} colors across ${boards.length} boards`)
+    let y = MARGIN + HEADER + 28
+    page.text(MARGIN + 20, y - 6, 8, 'Code', 'sans-bold')
+    page.text(MARGIN + 70, y - 6, 8, 'Color', 'sans-bold')
+    page.text(MARGIN + 260, y - 6, 8, 'Pieces', 'sans-bold')
+    for (const part of plan.parts.slice(start, start + bomPerPage)) {
+      partRow(page, MARGIN, y, part, true)
+      y += ROW
+    }
+  }
+
+  return buildPdf(pages, `${title} build plan`)
+}
+
+/** Swatch, code, (name,) count */
+function partRow(page: PdfPage, x: number, y: number, part: PartCount, withName: boolean) {
+  page.fillColor(part.color)
+  page.fillRect(x, y, 10, 10)
+  page.strokeColor(GRID_MAJOR, 0.4)
+  page.strokeRect(x, y, 10, 10)
+  page.fillColor([0, 0, 0])
+  page.text(x + 20, y + 8, 8, part.code)
+  if (withName) {
+    page.text(x + 70, y + 8, 8, part.name)
+    page.text(x + 260, y + 8, 8, String(part.count))
+  } else {
+    page.text(x + 60, y + 8, 8, `x ${part.count}`)
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Canvas renderer
+ * Draws a MosaicGrid onto a 2D canvas (DOM or offscreen)
+ */
+
+import type { MosaicGrid, PixelShape, RawImage, RenderStyle } from '../utils/mosaic'
+import { asciiChar, cellBackground, cellShape, flatBackground, shapeBox } from './common'
+import { drawGridLines, renderBackgroundToRGBA, renderGridToRGBA } from './raster'
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+/** Draw a single pixel block with the given shape */
+export function drawShape(
+  ctx: Context2D,
+  x: number, y: number, size: number,
+  r: number, g: number, b: number,
+  brightness: number, // 0-1 for ASCII
+  shape: PixelShape
+) {
+  const half = size / 2
+  const cx = x + half
+  const cy = y + half
+  const color = `rgb(${r},${g},${b})`
+
+  switch (shape) {
+    case 'square':
+      ctx.fillStyle = color
+      ctx.fillRect(x, y, size, size)
+      break
+
+    case 'circle':
+      ctx.fillStyle = color
+      ctx.beginPath()
+      ctx.arc(cx, cy, half * 0.85, 0, Math.PI * 2)
+      ctx.fill()
+      break
+
+    case 'diamond':
+      ctx.fillStyle = color
+      ctx.beginPath()
+      ctx.moveTo(cx, y + 1)
+      ctx.lineTo(x + size - 1, cy)
+      ctx.lineTo(cx, y + size - 1)
+      ctx.lineTo(x + 1, cy)
+      ctx.closePath()
+      ctx.fill()
+      break
+
+    case 'cross': {
+      ctx.fillStyle = color
+      const arm = Math.max(1, Math.floor(size * 0.3))
+      // Horizontal bar
+      ctx.fillRect(x, y + half - arm / 2, size, arm)
+      // Vertical bar
+      ctx.fillRect(x + half - arm / 2, y, arm, size)
+      break
+    }
+
+    case 'ascii': {
+      ctx.fillStyle = color
+      ctx.font = `${size}px monospace`
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText(asciiChar(brightness), cx, cy)
+      break
+    }
+  }
+}
+
+/** Fill the background and draw every cell of the grid; transparent cells are left clear */
+export function drawGrid(ctx: Context2D, grid: MosaicGrid, style: RenderStyle) {
+  const { cols, rows, cellSize, colors, brightness, alpha } = grid
+  const tiled = grid.layout !== 'square'
+  const shape = cellShape(grid, style)
+  // Hex and triangle tiles meet along slanted edges where antialiased fills leave seams, so whole
+  // tiles come from the raster renderer, which gives every pixel to exactly one cell; so do photo tiles
+  if (shape === 'photo' || (tiled && shape === 'square')) {
+    putRaster(ctx, renderGridToRGBA(grid, style))
+    return
+  }
+
+  const flat = flatBackground(grid, style)
+  if (flat) {
+    ctx.fillStyle = `rgb(${flat[0]},${flat[1]},${flat[2]})`
+    ctx.fillRect(0, 0, grid.width, grid.height)
+  } else if (tiled) {
+    putRaster(ctx, renderBackgroundToRGBA(grid, style))
+  } else {
+    ctx.clearRect(0, 0, grid.width, grid.height)
+    for (let i = 0; i < cols * rows; i++) {
+      const bg = cellBackground(grid, style, i)
+      if (!bg) continue
+      ctx.fillStyle = `rgb(${bg[0]},${bg[1]},${bg[2]})`
+      ctx.fillRect((i % cols) * cellSize, Math.floor(i / cols) * cellSize, cellSize, cellSize)
+    }
+  }
+
+  for (let i = 0; i < cols * rows; i++) {
+    if (!alpha[i]) continue
+    const [x, y, size] = shapeBox(grid, i)
+    ctx.globalAlpha = alpha[i] / 255
+    drawShape(
+      ctx, x, y, size,
+      colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2],
+      brightness[i], shape
+    )
+  }
+  ctx.globalAlpha = 1
+
+  // Grid lines come from the raster renderer too, so the preview matches exports pixel for pixel
+  if (style.gridLines > 0) {
+    const lines: RawImage = { data: new Uint8ClampedArray(grid.width * grid.height * 4), width: grid.width, height: grid.height }
+    drawGridLines(lines, grid, style)
+    const layer = new OffscreenCanvas(grid.width, grid.height)
+    putRaster(layer.getContext('2d')!, lines)
+    ctx.drawImage(layer, 0, 0)
+  }
+}
+
+function putRaster(ctx: Context2D, image: RawImage) {
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0)
+}
@@ -0,0 +1,203 @@
+/**
+ * Cross-stitch chart renderer
+ * Symbol grid with bold lines every 10 stitches plus a thread legend, as one SVG or a paginated A4 PDF
+ */
+
+import { finishedSize, type CrossStitchPattern, type FabricCount } from '../utils/crossStitch'
+import { A4, buildPdf, PdfPage } from '../utils/pdf'
+import { contrastColor } from './common'
+
+type RGB = [number, number, number]
+
+const MAJOR = 10 // stitches between bold grid lines
+const GRID_MINOR: RGB = [150, 150, 150]
+const GRID_MAJOR: RGB = [0, 0, 0]
+
+/** One-line description: stitch count, colors and finished size */
+export function patternSummary(pattern: CrossStitchPattern, fabric: FabricCount): string {
+  const { inches, cm } = finishedSize(pattern, fabric)
+  return `${pattern.cols} x ${pattern.rows} stitches, ${pattern.threads.length} colors, ` +
+    `${fabric} ct: ${inches[0].toFixed(1)} x ${inches[1].toFixed(1)} in (${cm[0].toFixed(1)} x ${cm[1].toFixed(1)} cm)`
+}
+
+export function renderPatternSvg(pattern: CrossStitchPattern, fabric: FabricCount): string {
+  const { cols, rows, cells, threads } = pattern
+  const cell = 14
+  const axis = 24
+  const pad = 16
+  const gridX = pad + axis
+  const gridY = pad + 40 + axis
+  const gridW = cols * cell
+  const gridH = rows * cell
+  const rowH = 20
+  const legendY = gridY + gridH + 32
+  const width = Math.max(gridX + gridW + pad, 460)
+  const height = legendY + 24 + threads.length * rowH + pad
+
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+    `<text x="${pad}" y="${pad + 14}" font-size="14" font-weight="bold">Cross-stitch chart</text>`,
+    `<text x="${pad}" y="${pad + 32}" font-size="11" fill="#444">${escapeXml(patternSummary(pattern, fabric))}</text>`,
+  ]
+
+  // Cells grouped by thread: one fill path and one symbol group each
+  const rects = threads.map(() => [] as string[])
+  const symbols = threads.map(() => [] as string[])
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const t = cells[row * cols + col]
+      const x = gridX + col * cell
+      const y = gridY + row * cell
+      rects[t].push(`M${x} ${y}h${cell}v${cell}h${-cell}z`)
+      symbols[t].push(`<text x="${x + cell / 2}" y="${y + cell / 2}">${escapeXml(threads[t].symbol)}</text>`)
+    }
+  }
+  threads.forEach((thread, t) => {
+    out.push(`<path fill="${hex(thread.color)}" d="${rects[t].join('')}"/>`)
+    out.push(`<g fill="${hex(contrastColor(thread.color))}" font-family="Courier New, monospace" font-weight="bold" font-size="${cell * 0.75}" text-anchor="middle" dominant-baseline="central">${symbols[t].join('')}</g>`)
+  })
+
+  // Grid lines, bold every MAJOR stitches, with stitch numbers along the top and left
+  const minor: string[] = []
+  const major: string[] = []
+  const labels: string[] = []
+  for (let c = 0; c <= cols; c++) {
+    const x = gridX + c * cell
+    ;(c % MAJOR === 0 || c === cols ? major : minor).push(`M${x} ${gridY}v${gridH}`)
+    if (c % MAJOR === 0 && c > 0) labels.push(`<text x="${x}" y="${gridY - 6}" text-anchor="middle">${c}</text>`)
+  }
+  for (let r = 0; r <= rows; r++) {
+    const y = gridY + r * cell
+    ;(r % MAJOR === 0 || r === rows ? major : minor).push(`M${gridX} ${y}h${gridW}`)
+    if (r % MAJOR === 0 && r > 0) labels.push(`<text x="${gridX - 4}" y="${y}" text-anchor="end" dominant-baseline="central">${r}</text>`)
+  }
+  out.push(`<path stroke="${hex(GRID_MINOR)}" stroke-width="0.5" fill="none" d="${minor.join('')}"/>`)
+  out.push(`<path stroke="${hex(GRID_MAJOR)}" stroke-width="1.5" fill="none" d="${major.join('')}"/>`)
+  out.push(`<g font-size="9" fill="#444">${labels.join('')}</g>`)
+
+  // Legend
+  out.push(
+    `<g font-size="11" font-weight="bold">`,
+    `<text x="${pad}" y="${legendY}">Symbol</text>`,
+    `<text x="${pad + 56}" y="${legendY}">DMC</text>`,
+    `<text x="${pad + 104}" y="${legendY}">Color name</text>`,
+    `<text x="${pad + 330}" y="${legendY}" text-anchor="end">Stitches</text>`,
+    '</g>',
+  )
+  threads.forEach((thread, i) => {
+    const y = legendY + 12 + i * rowH
+    out.push(
+      `<rect x="${pad}" y="${y}" width="${rowH - 4}" height="${rowH - 4}" fill="${hex(thread.color)}" stroke="#000" stroke-width="0.5"/>`,
+      `<text x="${pad + (rowH - 4) / 2}" y="${y + (rowH - 4) / 2}" fill="${hex(contrastColor(thread.color))}" font-family="Courier New, monospace" font-weight="bold" font-size="12" text-anchor="middle" dominant-baseline="central">${escapeXml(thread.symbol)}</text>`,
+      `<text x="${pad + 56}" y="${y + 12}" font-size="11">${escapeXml(thread.code)}</text>`,
+      `<text x="${pad + 104}" y="${y + 12}" font-size="11">${escapeXml(thread.name)}</text>`,
+      `<text x="${pad + 330}" y="${y + 12}" font-size="11" text-anchor="end">${thread.stitches}</text>`,
+    )
+  })
+
+  out.push('</svg>')
+  return out.join('\n') + '\n'
+}
+
+// PDF layout (points): A4 portrait, 10pt stitches, 50 × 70 stitches per chart page
+const PDF_MARGIN = 36
+const PDF_CELL = 10
+const PDF_HEADER = 24
+const PDF_AXIS = 16
+const PAGE_COLS = 50
+const PAGE_ROWS = 70
+const LEGEND_ROW = 16
+
+/** Multi-page PDF: chart pages tiled row by row, then the legend */
+export function renderPatternPdf(pattern: CrossStitchPattern, fabric: FabricCount): Uint8Array<ArrayBuffer> {
+  const { cols, rows, cells, threads } = pattern
+  const tilesX = Math.ceil(cols / PAGE_COLS)
+  const tilesY = Math.ceil(rows / PAGE_ROWS)
+  const legendPerPage = Math.floor((A4[1] - 2 * PDF_MARGIN - PDF_HEADER - 40) / LEGEND_ROW)
+  const totalPages = tilesX * tilesY + Math.max(1, Math.ceil(threads.length / legendPerPage))
+  const pages: PdfPage[] = []
+
+  const newPage = (heading: string) => {
+    const page = new PdfPage(A4[0], A4[1])
+    page.fillColor([0, 0, 0])
+    page.text(PDF_MARGIN, PDF_MARGIN + 12, 12, heading, 'sans-bold')
+    page.text(A4[0] - PDF_MARGIN - 60, PDF_MARGIN + 12, 9, `Page ${pages.length + 1} / ${totalPages}`)
+    pages.push(page)
+    return page
+  }
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const c0 = tx * PAGE_COLS, c1 = Math.min(cols, c0 + PAGE_COLS)
+      const r0 = ty * PAGE_ROWS, r1 = Math.min(rows, r0 + PAGE_ROWS)
+      const page = newPage(`Cross-stitch chart - columns ${c0 + 1}-${c1}, rows ${r0 + 1}-${r1}`)
+      const gx = PDF_MARGIN + PDF_AXIS
+      const gy = PDF_MARGIN + PDF_HEADER + PDF_AXIS
+      const gw = (c1 - c0) * PDF_CELL
+      const gh = (r1 - r0) * PDF_CELL
+
+      for (let r = r0; r < r1; r++) {
+        for (let c = c0; c < c1; c++) {
+          const thread = threads[cells[r * cols + c]]
+          const x = gx + (c - c0) * PDF_CELL
+          const y = gy + (r - r0) * PDF_CELL
+          page.fillColor(thread.color)
+          page.fillRect(x, y, PDF_CELL, PDF_CELL)
+          page.fillColor(contrastColor(thread.color))
+          page.text(x + PDF_CELL / 2, y + PDF_CELL * 0.75, PDF_CELL * 0.8, thread.symbol, 'mono-bold', 'center')
+        }
+      }
+
+      // Stitch numbers stay global so tiles line up when pages are placed side by side
+      page.fillColor([68, 68, 68])
+      for (let c = c0; c <= c1; c++) {
+        const x = gx + (c - c0) * PDF_CELL
+        page.strokeColor(c % MAJOR === 0 ? GRID_MAJOR : GRID_MINOR, c % MAJOR === 0 ? 1 : 0.3)
+        page.line(x, gy, x, gy + gh)
+        if (c % MAJOR === 0 && c > 0) page.text(x, gy - 4, 6, String(c), 'sans', 'center')
+      }
+      for (let r = r0; r <= r1; r++) {
+        const y = gy + (r - r0) * PDF_CELL
+        page.strokeColor(r % MAJOR === 0 ? GRID_MAJOR : GRID_MINOR, r % MAJOR === 0 ? 1 : 0.3)
+        page.line(gx, y, gx + gw, y)
+        if (r % MAJOR === 0 && r > 0) page.text(gx - 2 - String(r).length * 3.4, y + 2, 6, String(r))
+      }
+      page.strokeColor(GRID_MAJOR, 1)
+      page.strokeRect(gx, gy, gw, gh)
+    }
+  }
+
+  for (let start = 0; start === 0 || start < threads.length; start += legendPerPage) {
+    const page = newPage('Thread legend (DMC)')
+    page.text(PDF_MARGIN, PDF_MARGIN + 30, 9, patternSummary(pattern, fabric))
+    let y = PDF_MARGIN + PDF_HEADER + 28
+    page.text(PDF_MARGIN, y - 6, 8, 'Symbol', 'sans-bold')
+    page.text(PDF_MARGIN + 50, y - 6, 8, 'DMC', 'sans-bold')
+    page.text(PDF_MARGIN + 100, y - 6, 8, 'Color name', 'sans-bold')
+    page.text(PDF_MARGIN + 300, y - 6, 8, 'Stitches', 'sans-bold')
+    for (const thread of threads.slice(start, start + legendPerPage)) {
+      page.fillColor(thread.color)
+      page.fillRect(PDF_MARGIN, y, 12, 12)
+      page.strokeColor(GRID_MAJOR, 0.5)
+      page.strokeRect(PDF_MARGIN, y, 12, 12)
+      page.fillColor(contrastColor(thread.color))
+      page.text(PDF_MARGIN + 6, y + 9, 10, thread.symbol, 'mono-bold', 'center')
+      page.fillColor([0, 0, 0])
+      page.text(PDF_MARGIN + 50, y + 9, 9, thread.code)
+      page.text(PDF_MARGIN + 100, y + 9, 9, thread.name)
+      page.text(PDF_MARGIN + 300, y + 9, 9, String(thread.stitches))
+      y += LEGEND_ROW
+    }
+  }
+
+  return buildPdf(pages, 'Cross-stitch chart')
+}
+
+function hex([r, g, b]: RGB): string {
+  return '#' + ((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1)
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`)
+}
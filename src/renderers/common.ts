@@ -0,0 +1,118 @@
+/**
+ * Shared renderer helpers
+ */
+
+import type { MosaicGrid, PixelShape, RenderStyle } from '../utils/mosaic'
+import { cellAt, cellCenter, cellInset, cellPolygon } from '../utils/tiling'
+
+type RGB = [number, number, number]
+
+// ASCII density ramp (dark → light)
+export const ASCII_CHARS = '@%#*+=-:. '
+
+/** Glyph for a cell brightness (0 = dark, 1 = light) */
+export function asciiChar(brightness: number): string {
+  const charIdx = Math.floor((1 - brightness) * (ASCII_CHARS.length - 1))
+  return ASCII_CHARS[Math.max(0, Math.min(charIdx, ASCII_CHARS.length - 1))]
+}
+
+// Light gray checkerboard, one square per cell, as image editors show transparency
+const CHECKER: [RGB, RGB] = [[255, 255, 255], [204, 204, 204]]
+
+/** Default background behind the cells: black for most shapes, dark for ASCII */
+export function backgroundColor(shape: PixelShape): RGB {
+  return shape === 'ascii' ? [17, 17, 17] : [0, 0, 0]
+}
+
+/** One color under the whole image, or null when the background varies per cell or is transparent */
+export function flatBackground(grid: MosaicGrid, style: RenderStyle): RGB | null {
+  if (style.background === 'solid') return style.backgroundColor
+  if (style.background === 'auto' && isOpaque(grid)) return backgroundColor(style.shape)
+  return null
+}
+
+/**
+ * Background under cell i, or null to leave it clear. 'auto' only backs fully drawn cells,
+ * so transparent parts of the source stay transparent.
+ */
+export function cellBackground(grid: MosaicGrid, style: RenderStyle, i: number): RGB | null {
+  switch (style.background) {
+    case 'auto':
+      return grid.alpha[i] === 255 ? backgroundColor(style.shape) : null
+    case 'solid':
+      return style.backgroundColor
+    case 'transparent':
+      return null
+    case 'checker':
+      return CHECKER[((i % grid.cols) + Math.floor(i / grid.cols)) % 2]
+  }
+}
+
+/** The shape cells are drawn as: 'photo' falls back to squares until the grid has matched tiles */
+export function cellShape(grid: MosaicGrid, style: RenderStyle): PixelShape {
+  return style.shape === 'photo' && !grid.photo ? 'square' : style.shape
+}
+
+/** Black text on light colors, white on dark */
+export function contrastColor([r, g, b]: RGB): RGB {
+  return 0.299 * r + 0.587 * g + 0.114 * b > 140 ? [0, 0, 0] : [255, 255, 255]
+}
+
+/** True when every cell is fully drawn */
+export function isOpaque(grid: MosaicGrid): boolean {
+  return grid.alpha.every(a => a === 255)
+}
+
+/** Top-left corner and side of the box cell i's shape is drawn into; the cell itself for square grids */
+export function shapeBox(grid: MosaicGrid, i: number): [x: number, y: number, size: number] {
+  const { cols, cellSize, layout } = grid
+  const col = i % cols
+  const row = Math.floor(i / cols)
+  if (layout === 'square') return [col * cellSize, row * cellSize, cellSize]
+  const [cx, cy] = cellCenter(layout, col, row, cellSize)
+  const size = cellInset(layout, cellSize)
+  return [cx - size / 2, cy - size / 2, size]
+}
+
+/** Corners of cell i */
+export function cellOutline(grid: MosaicGrid, i: number): [number, number][] {
+  return cellPolygon(grid.layout, i % grid.cols, Math.floor(i / grid.cols), grid.cellSize)
+}
+
+/** Whether cell i owns the point; pixels test their centers, so neighbouring tiles never overlap or leave gaps */
+export function ownsPoint(grid: MosaicGrid, i: number, x: number, y: number): boolean {
+  return cellAt(grid.layout, x, y, grid.cellSize, grid.cols, grid.rows) === i
+}
+
+/**
+ * Cell edges carrying grid lines, each with its unit normal pointing into the cell. Every shared
+ * edge belongs to one cell only (the one it bounds on the left, or for level edges on top), so
+ * lines keep one thickness; edges on the image border get none.
+ */
+export function gridLineEdges(grid: MosaicGrid, i: number): [a: [number, number], b: [number, number], nx: number, ny: number][] {
+  const corners = cellOutline(grid, i)
+  const cx = corners.reduce((sum, p) => sum + p[0], 0) / corners.length
+  const cy = corners.reduce((sum, p) => sum + p[1], 0) / corners.length
+  const edges: [[number, number], [number, number], number, number][] = []
+  for (let k = 0; k < corners.length; k++) {
+    const a = corners[k]
+    const b = corners[(k + 1) % corners.length]
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1])
+    let nx = (a[1] - b[1]) / length
+    let ny = (b[0] - a[0]) / length
+    const mx = (a[0] + b[0]) / 2
+    const my = (a[1] + b[1]) / 2
+    if ((cx - mx) * nx + (cy - my) * ny < 0) {
+      nx = -nx
+      ny = -ny
+    }
+    // An inward normal pointing right (or straight down) puts the edge on the cell's left (or top)
+    const leftOrTop = nx > 1e-9 || (Math.abs(nx) <= 1e-9 && ny > 0)
+    if (!leftOrTop) continue
+    const ox = mx - nx * 1e-3
+    const oy = my - ny * 1e-3
+    if (ox < 0 || oy < 0 || ox > grid.width || oy > grid.height) continue
+    edges.push([a, b, nx, ny])
+  }
+  return edges
+}
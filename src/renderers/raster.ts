@@ -0,0 +1,246 @@
+/**
+ * Raster renderer
+ * Draws a MosaicGrid into a plain RGBA buffer — no canvas needed, so it works in Node
+ */
+
+import type { MosaicGrid, PixelShape, RawImage, RenderStyle } from '../utils/mosaic'
+import { asciiChar, cellBackground, cellOutline, cellShape, flatBackground, gridLineEdges, ownsPoint, shapeBox } from './common'
+import { TILE_SIZE, tileColor } from '../utils/photoMosaic'
+
+// 5×7 bitmap glyphs, one per character of the ASCII ramp
+const GLYPH_W = 5
+const GLYPH_H = 7
+const GLYPHS: Record<string, string[]> = {
+  '@': ['.###.', '#...#', '#.###', '#.#.#', '#.###', '#....', '.###.'],
+  '%': ['##..#', '##..#', '...#.', '..#..', '.#...', '#..##', '#..##'],
+  '#': ['.#.#.', '.#.#.', '#####', '.#.#.', '#####', '.#.#.', '.#.#.'],
+  '*': ['.....', '#.#.#', '.###.', '#####', '.###.', '#.#.#', '.....'],
+  '+': ['.....', '..#..', '..#..', '#####', '..#..', '..#..', '.....'],
+  '=': ['.....', '.....', '#####', '.....', '#####', '.....', '.....'],
+  '-': ['.....', '.....', '.....', '#####', '.....', '.....', '.....'],
+  ':': ['.....', '..#..', '..#..', '.....', '..#..', '..#..', '.....'],
+  '.': ['.....', '.....', '.....', '.....', '.....', '.##..', '.##..'],
+  ' ': ['.....', '.....', '.....', '.....', '.....', '.....', '.....'],
+}
+
+/** Render the grid at source resolution into a new RGBA buffer */
+export function renderGridToRGBA(grid: MosaicGrid, style: RenderStyle): RawImage {
+  const { cols, rows, colors, brightness, alpha } = grid
+  const image = renderBackgroundToRGBA(grid, style)
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col
+      if (!alpha[i]) continue
+      const color: [number, number, number] = [colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]]
+      let shape = cellShape(grid, style)
+      if (shape === 'photo') {
+        if (grid.photo!.index[i] >= 0) {
+          fillPhoto(image, grid, i, alpha[i])
+          continue
+        }
+        shape = 'square' // outline cells
+      }
+      if (shape === 'square' && grid.layout !== 'square') {
+        fillCell(image, grid, i, color, alpha[i])
+      } else {
+        const [x, y, size] = shapeBox(grid, i)
+        rasterShape(image, x, y, size, color, alpha[i], brightness[i], shape)
+      }
+    }
+  }
+  if (style.gridLines > 0) drawGridLines(image, grid, style)
+  return image
+}
+
+/**
+ * Grid lines `gridLines` px thick along the cell edges, drawn inside the cell on its left/top
+ * edges (see gridLineEdges) so a 1 px line covers exactly one pixel column or row. Ownership is
+ * tested a hair inside the edge, so pixel centers lying on the edge itself still get their line.
+ */
+export function drawGridLines(image: RawImage, grid: MosaicGrid, style: RenderStyle) {
+  const thickness = style.gridLines
+  for (let i = 0; i < grid.cols * grid.rows; i++) {
+    const edges = gridLineEdges(grid, i)
+    if (!edges.length) continue
+    const corners = cellOutline(grid, i)
+    const xs = corners.map(p => p[0])
+    const ys = corners.map(p => p[1])
+    const x = Math.min(...xs) - 1
+    const y = Math.min(...ys) - 1
+    fillWhere(image, x, y, Math.max(...xs) + 1 - x, Math.max(...ys) + 1 - y, style.gridColor, 255, (px, py) =>
+      edges.some(([a, b, nx, ny]) => {
+        const depth = (px - a[0]) * nx + (py - a[1]) * ny
+        const along = (px - a[0]) * (b[0] - a[0]) + (py - a[1]) * (b[1] - a[1])
+        return depth >= 0 && depth < thickness && along >= 0 && along <= (b[0] - a[0]) ** 2 + (b[1] - a[1]) ** 2 &&
+          ownsPoint(grid, i, px + nx * 1e-6, py + ny * 1e-6)
+      }))
+  }
+}
+
+/**
+ * Paint cell i with its library tile, shifted toward the cell's output color by the tint.
+ * Tiles cover the cell's square, or for other layouts a square around the cell clipped to its pixels.
+ */
+function fillPhoto(image: RawImage, grid: MosaicGrid, i: number, alpha: number) {
+  const { tiles, index, tint } = grid.photo!
+  const tile = tiles[index[i]]
+  const shift = [0, 1, 2].map(c => (grid.colors[i * 3 + c] - tile.mean[c]) * tint)
+
+  const { data, width, height } = image
+  let x: number, y: number, size: number
+  let bounds: [number, number, number, number] // pixels to visit: x0, y0, x1, y1
+  let inside = (_px: number, _py: number) => true
+  if (grid.layout === 'square') {
+    [x, y, size] = shapeBox(grid, i)
+    bounds = [Math.ceil(x - 0.5), Math.ceil(y - 0.5), Math.ceil(x + size - 0.5), Math.ceil(y + size - 0.5)]
+  } else {
+    const corners = cellOutline(grid, i)
+    const xs = corners.map(p => p[0])
+    const ys = corners.map(p => p[1])
+    const left = Math.min(...xs), right = Math.max(...xs)
+    const top = Math.min(...ys), bottom = Math.max(...ys)
+    size = Math.max(right - left, bottom - top)
+    x = (left + right - size) / 2
+    y = (top + bottom - size) / 2
+    // Padded by a pixel like fillCell, for centers exactly on the edge
+    bounds = [Math.floor(left - 1), Math.floor(top - 1), Math.ceil(right + 1), Math.ceil(bottom + 1)]
+    inside = (px, py) => ownsPoint(grid, i, px, py)
+  }
+
+  const scale = TILE_SIZE / size
+  const [x0, y0, x1, y1] = bounds
+  for (let py = Math.max(0, y0); py < Math.min(height, y1); py++) {
+    for (let px = Math.max(0, x0); px < Math.min(width, x1); px++) {
+      if (!inside(px + 0.5, py + 0.5)) continue
+      const [r, g, b, a] = tileColor(tile, (px - x) * scale, (py - y) * scale, (px + 1 - x) * scale, (py + 1 - y) * scale)
+      blend(data, (py * width + px) * 4, r + shift[0], g + shift[1], b + shift[2], (a / 255) * (alpha / 255))
+    }
+  }
+}
+
+/** Just the background layer, which the canvas renderer puts under shapes of non-square layouts */
+export function renderBackgroundToRGBA(grid: MosaicGrid, style: RenderStyle): RawImage {
+  const { width, height, cols, rows } = grid
+  const image: RawImage = { data: new Uint8ClampedArray(width * height * 4), width, height }
+  const flat = flatBackground(grid, style)
+  if (flat) {
+    fillWhere(image, 0, 0, width, height, flat, 255, () => true)
+  } else {
+    for (let i = 0; i < cols * rows; i++) {
+      const bg = cellBackground(grid, style, i)
+      if (bg) fillCell(image, grid, i, bg, 255)
+    }
+  }
+  return image
+}
+
+/** Fill all of cell i: its square, or for other layouts every pixel whose center the cell owns */
+function fillCell(image: RawImage, grid: MosaicGrid, i: number, color: [number, number, number], alpha: number) {
+  if (grid.layout === 'square') {
+    const [x, y, size] = shapeBox(grid, i)
+    fillWhere(image, x, y, size, size, color, alpha, () => true)
+    return
+  }
+  const corners = cellOutline(grid, i)
+  const xs = corners.map(p => p[0])
+  const ys = corners.map(p => p[1])
+  // Padded by a pixel: a center lying exactly on the bounding edge may still belong to this cell
+  const x = Math.min(...xs) - 1
+  const y = Math.min(...ys) - 1
+  fillWhere(image, x, y, Math.max(...xs) + 1 - x, Math.max(...ys) + 1 - y, color, alpha, (px, py) => ownsPoint(grid, i, px, py))
+}
+
+/** Software equivalent of the canvas drawShape: a pixel is filled when its center is inside the shape */
+function rasterShape(
+  image: RawImage,
+  x: number, y: number, size: number,
+  color: [number, number, number],
+  alpha: number,
+  brightness: number,
+  shape: PixelShape
+) {
+  const half = size / 2
+  const cx = x + half
+  const cy = y + half
+
+  switch (shape) {
+    case 'square':
+      fillWhere(image, x, y, size, size, color, alpha, () => true)
+      break
+
+    case 'circle': {
+      const r2 = (half * 0.85) ** 2
+      fillWhere(image, x, y, size, size, color, alpha, (px, py) => (px - cx) ** 2 + (py - cy) ** 2 <= r2)
+      break
+    }
+
+    case 'diamond': {
+      const reach = Math.max(half - 1, 0.5)
+      fillWhere(image, x, y, size, size, color, alpha, (px, py) => Math.abs(px - cx) + Math.abs(py - cy) <= reach)
+      break
+    }
+
+    case 'cross': {
+      const arm = Math.max(1, Math.floor(size * 0.3))
+      fillWhere(image, x, y + half - arm / 2, size, arm, color, alpha, () => true)
+      fillWhere(image, x + half - arm / 2, y, arm, size, color, alpha, () => true)
+      break
+    }
+
+    case 'ascii': {
+      const glyph = GLYPHS[asciiChar(brightness)]
+      if (!glyph) break
+      // Monospace-like glyph box: ~0.6em wide, ~0.7em tall, centered in the cell
+      const gw = size * 0.6
+      const gh = size * 0.7
+      const gx = cx - gw / 2
+      const gy = cy - gh / 2
+      fillWhere(image, gx, gy, gw, gh, color, alpha, (px, py) => {
+        const u = Math.floor(((px - gx) / gw) * GLYPH_W)
+        const v = Math.floor(((py - gy) / gh) * GLYPH_H)
+        return glyph[v]?.[u] === '#'
+      })
+      break
+    }
+  }
+}
+
+/** Paint pixels whose centers lie in the rect (x, y, w, h) and pass `inside`, source-over at `alpha` */
+function fillWhere(
+  image: RawImage,
+  x: number, y: number, w: number, h: number,
+  [r, g, b]: [number, number, number],
+  alpha: number,
+  inside: (px: number, py: number) => boolean
+) {
+  const { data, width, height } = image
+  const a = alpha / 255
+  const x0 = Math.max(0, Math.ceil(x - 0.5))
+  const y0 = Math.max(0, Math.ceil(y - 0.5))
+  const x1 = Math.min(width, Math.ceil(x + w - 0.5))
+  const y1 = Math.min(height, Math.ceil(y + h - 0.5))
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      if (inside(px + 0.5, py + 0.5)) blend(data, (py * width + px) * 4, r, g, b, a)
+    }
+  }
+}
+
+/** Source-over one pixel at opacity a (0-1) */
+function blend(data: Uint8ClampedArray, pos: number, r: number, g: number, b: number, a: number) {
+  if (a === 1) {
+    data[pos] = r
+    data[pos + 1] = g
+    data[pos + 2] = b
+    data[pos + 3] = 255
+    return
+  }
+  const under = (data[pos + 3] / 255) * (1 - a)
+  const out = a + under
+  if (out === 0) return
+  data[pos] = (r * a + data[pos] * under) / out
+  data[pos + 1] = (g * a + data[pos + 1] * under) / out
+  data[pos + 2] = (b * a + data[pos + 2] * under) / out
+  data[pos + 3] = out * 255
+}
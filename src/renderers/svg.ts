@@ -0,0 +1,193 @@
+/**
+ * SVG renderer
+ * One vector element per cell; square cells of the same color are merged into larger rectangles
+ * and grouped into a single <path> per color to keep files small. Hex, triangle and brick tiles
+ * become one polygon each, still grouped per color.
+ */
+
+import type { MosaicGrid, PixelShape, RenderStyle } from '../utils/mosaic'
+import { asciiChar, cellBackground, cellOutline, flatBackground, gridLineEdges, shapeBox } from './common'
+import { cellInset } from '../utils/tiling'
+
+export function renderGridToSvg(grid: MosaicGrid, style: RenderStyle): string {
+  const { width, height } = grid
+  // Tile images aren't embedded: photo cells export as squares of their output color
+  const shape = style.shape === 'photo' ? 'square' : style.shape
+  const flat = flatBackground(grid, style)
+
+  const body = shape === 'square'
+    ? Array.from(tilePaths(grid, i => (grid.alpha[i] ? cellFill(grid, i) : null)), pathElement)
+    : cellElements(grid, shape)
+  // Crisp edges keep merged squares seamless; curved shapes need antialiasing
+  const rendering = shape === 'square' ? ' shape-rendering="crispEdges"' : ''
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"${rendering}>`,
+    flat
+      ? `<rect width="${width}" height="${height}" fill="${hex(...flat)}"/>`
+      : Array.from(tilePaths(grid, i => {
+        const bg = cellBackground(grid, style, i)
+        return bg && `fill="${hex(...bg)}"`
+      }), pathElement).join('\n'),
+    ...body,
+    ...(style.gridLines > 0 ? [gridLinePath(grid, style)] : []),
+    '</svg>',
+  ].join('\n') + '\n'
+}
+
+function pathElement([fill, d]: [string, string[]]): string {
+  return `<path ${fill} d="${d.join('')}"/>`
+}
+
+/** Subpaths per fill key (null = skip): merged rectangles on square grids, one polygon per cell otherwise */
+function tilePaths(grid: MosaicGrid, key: (i: number) => string | null): Map<string, string[]> {
+  if (grid.layout === 'square') return mergeCells(grid, key)
+  const paths = new Map<string, string[]>()
+  for (let i = 0; i < grid.cols * grid.rows; i++) {
+    const fill = key(i)
+    if (fill === null) continue
+    let list = paths.get(fill)
+    if (!list) paths.set(fill, (list = []))
+    list.push(`M${cellOutline(grid, i).map(([x, y]) => `${n(x)} ${n(y)}`).join('L')}z`)
+  }
+  return paths
+}
+
+/**
+ * Greedy rectangle merge over cells with equal keys (null = skip): take a horizontal run,
+ * grow it downward while the rows below hold the same run, then emit it as one subpath per key.
+ * Keys are the fill attributes of the resulting path.
+ */
+function mergeCells(grid: MosaicGrid, key: (i: number) => string | null): Map<string, string[]> {
+  const { cols, rows, cellSize, width, height } = grid
+  const used = new Uint8Array(cols * rows)
+  const paths = new Map<string, string[]>()
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col
+      if (used[i]) continue
+      const fill = key(i)
+      if (fill === null) continue
+
+      let runEnd = col + 1
+      while (runEnd < cols && !used[row * cols + runEnd] && key(row * cols + runEnd) === fill) runEnd++
+
+      let rowEnd = row + 1
+      grow: while (rowEnd < rows) {
+        for (let c = col; c < runEnd; c++) {
+          const j = rowEnd * cols + c
+          if (used[j] || key(j) !== fill) break grow
+        }
+        rowEnd++
+      }
+
+      for (let r = row; r < rowEnd; r++) used.fill(1, r * cols + col, r * cols + runEnd)
+
+      // Clip the last row/column to the image like the raster renderers do
+      const x = col * cellSize
+      const y = row * cellSize
+      const w = Math.min(runEnd * cellSize, width) - x
+      const h = Math.min(rowEnd * cellSize, height) - y
+      let list = paths.get(fill)
+      if (!list) paths.set(fill, (list = []))
+      list.push(`M${x} ${y}h${w}v${h}h${-w}z`)
+    }
+  }
+
+  return paths
+}
+
+/**
+ * All grid lines as one stroked path. Like the raster renderer, each line lies inside the cell to
+ * the right of / below its edge, so strokes are shifted half a width inward.
+ */
+function gridLinePath(grid: MosaicGrid, style: RenderStyle): string {
+  const { cols, rows, cellSize, width, height } = grid
+  const t = style.gridLines
+  const d: string[] = []
+  if (grid.layout === 'square') {
+    for (let col = 1; col < cols; col++) d.push(`M${n(col * cellSize + t / 2)} 0V${height}`)
+    for (let row = 1; row < rows; row++) d.push(`M0 ${n(row * cellSize + t / 2)}H${width}`)
+  } else {
+    for (let i = 0; i < cols * rows; i++) {
+      for (const [a, b, nx, ny] of gridLineEdges(grid, i)) {
+        const ox = (nx * t) / 2
+        const oy = (ny * t) / 2
+        d.push(`M${n(a[0] + ox)} ${n(a[1] + oy)}L${n(b[0] + ox)} ${n(b[1] + oy)}`)
+      }
+    }
+  }
+  return `<path fill="none" stroke="${hex(...style.gridColor)}" stroke-width="${n(t)}" d="${d.join('')}"/>`
+}
+
+/** Non-square shapes: one element per cell, grouped by fill color */
+function cellElements(grid: MosaicGrid, shape: PixelShape): string[] {
+  const { cols, rows, brightness } = grid
+  const groups = new Map<string, string[]>()
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col
+      if (!grid.alpha[i]) continue
+      const [x, y, size] = shapeBox(grid, i)
+      const half = size / 2
+      const cx = x + half
+      const cy = y + half
+      let el: string
+
+      switch (shape) {
+        case 'circle':
+          el = `<circle cx="${n(cx)}" cy="${n(cy)}" r="${n(half * 0.85)}"/>`
+          break
+        case 'diamond':
+          el = `<polygon points="${n(cx)},${n(y + 1)} ${n(x + size - 1)},${n(cy)} ${n(cx)},${n(y + size - 1)} ${n(x + 1)},${n(cy)}"/>`
+          break
+        case 'cross': {
+          const arm = Math.max(1, Math.floor(size * 0.3))
+          el = `<path d="M${n(x)} ${n(y + half - arm / 2)}h${n(size)}v${arm}h${n(-size)}zM${n(x + half - arm / 2)} ${n(y)}h${arm}v${n(size)}h${-arm}z"/>`
+          break
+        }
+        case 'ascii': {
+          const ch = asciiChar(brightness[i])
+          if (ch === ' ') continue
+          el = `<text x="${n(cx)}" y="${n(cy)}">${escapeXml(ch)}</text>`
+          break
+        }
+        default:
+          el = `<rect x="${n(x)}" y="${n(y)}" width="${n(size)}" height="${n(size)}"/>`
+      }
+
+      const fill = cellFill(grid, i)
+      let list = groups.get(fill)
+      if (!list) groups.set(fill, (list = []))
+      list.push(el)
+    }
+  }
+
+  const textAttrs = shape === 'ascii'
+    ? ` font-family="monospace" font-size="${n(cellInset(grid.layout, grid.cellSize))}" text-anchor="middle" dominant-baseline="central"`
+    : ''
+  return Array.from(groups, ([fill, els]) => `<g ${fill}${textAttrs}>${els.join('')}</g>`)
+}
+
+/** Fill attributes for a cell; cells kept at partial alpha add fill-opacity */
+function cellFill(grid: MosaicGrid, i: number): string {
+  const c = grid.colors
+  const a = grid.alpha[i]
+  const fill = `fill="${hex(c[i * 3], c[i * 3 + 1], c[i * 3 + 2])}"`
+  return a === 255 ? fill : `${fill} fill-opacity="${n(a / 255)}"`
+}
+
+function hex(r: number, g: number, b: number): string {
+  return '#' + ((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1)
+}
+
+/** Compact number formatting: integers stay integers, fractions keep two decimals */
+function n(v: number): string {
+  return Number.isInteger(v) ? String(v) : String(Math.round(v * 100) / 100)
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`)
+}
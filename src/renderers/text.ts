@@ -0,0 +1,158 @@
+/**
+ * Text renderer
+ * Turns a MosaicGrid into ASCII art: plain text, ANSI-colored terminal output or a colored HTML <pre>
+ */
+
+import type { MosaicGrid } from '../utils/mosaic'
+import { asciiChar, backgroundColor } from './common'
+
+export type TextFormat = 'txt' | 'ansi256' | 'truecolor' | 'html'
+
+export const TEXT_FORMATS: { id: TextFormat; name: string; ext: string; mime: string }[] = [
+  { id: 'txt', name: '纯文本', ext: 'txt', mime: 'text/plain' },
+  { id: 'ansi256', name: 'ANSI 256 色', ext: 'ans', mime: 'text/plain' },
+  { id: 'truecolor', name: 'ANSI 真彩色', ext: 'ans', mime: 'text/plain' },
+  { id: 'html', name: 'HTML', ext: 'html', mime: 'text/html' },
+]
+
+// Monospace glyphs are roughly half as wide as they are tall (terminal cells are ~8×16)
+export const GLYPH_ASPECT = 0.5
+
+type RGB = [number, number, number]
+
+interface TextCell {
+  char: string
+  color: RGB
+}
+
+/**
+ * Render the grid as text. Each text row covers 1 / aspect grid rows, so the picture keeps its
+ * proportions when shown in a monospace font; pass aspect 1 for one line per grid row.
+ */
+export function renderGridToText(grid: MosaicGrid, format: TextFormat, aspect = GLYPH_ASPECT): string {
+  const lines = textCells(grid, aspect)
+  switch (format) {
+    case 'txt':
+      return lines.map(line => line.map(c => c.char).join('').trimEnd()).join('\n') + '\n'
+    case 'ansi256':
+      return ansi(lines, ([r, g, b]) => `38;5;${ansi256(r, g, b)}`)
+    case 'truecolor':
+      return ansi(lines, ([r, g, b]) => `38;2;${r};${g};${b}`)
+    case 'html':
+      return html(lines)
+  }
+}
+
+/** Average the grid rows that fall into each text row */
+function textCells(grid: MosaicGrid, aspect: number): TextCell[][] {
+  const { cols, rows, colors, brightness, alpha } = grid
+  const textRows = Math.max(1, Math.round(rows * aspect))
+  const lines: TextCell[][] = []
+
+  for (let t = 0; t < textRows; t++) {
+    const r0 = Math.floor((t * rows) / textRows)
+    const r1 = Math.max(r0 + 1, Math.floor(((t + 1) * rows) / textRows))
+    const line: TextCell[] = []
+    for (let col = 0; col < cols; col++) {
+      let r = 0, g = 0, b = 0, lum = 0, n = 0
+      for (let row = r0; row < r1; row++) {
+        const i = row * cols + col
+        if (!alpha[i]) continue
+        r += colors[i * 3]
+        g += colors[i * 3 + 1]
+        b += colors[i * 3 + 2]
+        lum += brightness[i]
+        n++
+      }
+      // Mostly transparent → blank
+      if (n * 2 < r1 - r0) {
+        line.push({ char: ' ', color: [0, 0, 0] })
+        continue
+      }
+      line.push({
+        char: asciiChar(lum / n),
+        color: [Math.round(r / n), Math.round(g / n), Math.round(b / n)],
+      })
+    }
+    lines.push(line)
+  }
+  return lines
+}
+
+/** SGR foreground escapes, emitted only when the color changes; every line ends with a reset */
+function ansi(lines: TextCell[][], sgr: (color: RGB) => string): string {
+  return lines.map(line => {
+    let out = ''
+    let current = ''
+    for (const { char, color } of line) {
+      const code = char === ' ' ? current : sgr(color)
+      if (code !== current) {
+        out += `\x1b[${code}m`
+        current = code
+      }
+      out += char
+    }
+    return out + '\x1b[0m'
+  }).join('\n') + '\n'
+}
+
+/** Nearest xterm-256 index from the 6×6×6 cube or the 24-step gray ramp */
+function ansi256(r: number, g: number, b: number): number {
+  const level = (v: number) => (v < 48 ? 0 : v < 115 ? 1 : Math.floor((v - 35) / 40))
+  const value = (l: number) => (l === 0 ? 0 : 55 + l * 40)
+  const lr = level(r), lg = level(g), lb = level(b)
+  const cube = 16 + 36 * lr + 6 * lg + lb
+  const cubeDist = (value(lr) - r) ** 2 + (value(lg) - g) ** 2 + (value(lb) - b) ** 2
+
+  const grayStep = Math.max(0, Math.min(23, Math.round(((r + g + b) / 3 - 8) / 10)))
+  const gray = 8 + grayStep * 10
+  const grayDist = (gray - r) ** 2 + (gray - g) ** 2 + (gray - b) ** 2
+
+  return grayDist < cubeDist ? 232 + grayStep : cube
+}
+
+/** Standalone HTML page; runs of one color share a <span> */
+function html(lines: TextCell[][]): string {
+  const [br, bg, bb] = backgroundColor('ascii')
+  const body = lines.map(line => {
+    let out = ''
+    let run = ''
+    let runColor = ''
+    const flush = () => {
+      if (run) out += runColor ? `<span style="color:${runColor}">${escapeHtml(run)}</span>` : run
+      run = ''
+    }
+    for (const { char, color } of line) {
+      // Spaces join whichever run they are in
+      const c = char === ' ' ? runColor : hex(color)
+      if (c !== runColor) {
+        flush()
+        runColor = c
+      }
+      run += char
+    }
+    flush()
+    return out
+  }).join('\n')
+
+  // line-height 1.2 with a ~0.6em monospace advance gives the 1:2 cell that GLYPH_ASPECT assumes
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Mosaic Studio ASCII</title>
+</head>
+<body style="margin:0;background:${hex([br, bg, bb])}">
+<pre style="margin:0;padding:16px;font:12px/1.2 'JetBrains Mono',Menlo,Consolas,monospace;color:#ccc">${body}</pre>
+</body>
+</html>
+`
+}
+
+function hex([r, g, b]: RGB): string {
+  return '#' + ((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1)
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>]/g, ch => (ch === '&' ? '&amp;' : ch === '<' ? '&lt;' : '&gt;'))
+}
@@ -0,0 +1,160 @@
+/**
+ * Adaptive palette extraction
+ * Builds an N-color palette from the source image (or all GIF frames) via median cut or k-means
+ */
+
+import type { Palette, RawImage } from './mosaic'
+
+export type ExtractMethod = 'median-cut' | 'kmeans'
+
+export const EXTRACT_METHODS: { id: ExtractMethod; name: string }[] = [
+  { id: 'median-cut', name: '中位切分' },
+  { id: 'kmeans', name: 'K-means' },
+]
+
+type RGB = [number, number, number]
+
+// Upper bound on pixels fed to the quantizer; large images and long GIFs are subsampled evenly
+const MAX_SAMPLES = 60000
+const KMEANS_ITERATIONS = 8
+
+export function extractPalette(
+  sources: RawImage[],
+  count: number,
+  method: ExtractMethod,
+  name = '自适应'
+): Palette {
+  const samples = collectSamples(sources)
+  if (samples.length === 0) return { name, colors: [[0, 0, 0]] }
+
+  let colors = medianCut(samples, count)
+  if (method === 'kmeans') colors = kmeans(samples, colors)
+
+  // Dark → light reads better in the palette picker and in exported palette files
+  colors.sort((a, b) => luma(a) - luma(b))
+  return { name, colors }
+}
+
+/** Opaque pixels from all sources, packed as RGB triples */
+function collectSamples(sources: RawImage[]): Uint8Array {
+  const total = sources.reduce((n, s) => n + s.width * s.height, 0)
+  const stride = Math.max(1, Math.floor(total / MAX_SAMPLES))
+  const out = new Uint8Array(Math.ceil(total / stride) * 3)
+  let n = 0
+  let skip = 0
+  for (const { data } of sources) {
+    for (let pos = 0; pos < data.length; pos += 4) {
+      if (skip-- > 0) continue
+      skip = stride - 1
+      if (data[pos + 3] < 128) continue
+      out[n++] = data[pos]
+      out[n++] = data[pos + 1]
+      out[n++] = data[pos + 2]
+    }
+  }
+  return out.subarray(0, n)
+}
+
+interface Box {
+  indices: Uint32Array
+  min: RGB
+  max: RGB
+}
+
+function makeBox(samples: Uint8Array, indices: Uint32Array): Box {
+  const min: RGB = [255, 255, 255]
+  const max: RGB = [0, 0, 0]
+  for (const i of indices) {
+    for (let c = 0; c < 3; c++) {
+      const v = samples[i * 3 + c]
+      if (v < min[c]) min[c] = v
+      if (v > max[c]) max[c] = v
+    }
+  }
+  return { indices, min, max }
+}
+
+/** Repeatedly split the box with the largest (range × population) at the median of its widest channel */
+function medianCut(samples: Uint8Array, count: number): RGB[] {
+  const all = new Uint32Array(samples.length / 3)
+  for (let i = 0; i < all.length; i++) all[i] = i
+  const boxes = [makeBox(samples, all)]
+
+  while (boxes.length < count) {
+    let bestIdx = -1
+    let bestScore = 0
+    boxes.forEach((box, i) => {
+      const range = Math.max(box.max[0] - box.min[0], box.max[1] - box.min[1], box.max[2] - box.min[2])
+      const score = range * box.indices.length
+      if (box.indices.length > 1 && score > bestScore) { bestScore = score; bestIdx = i }
+    })
+    if (bestIdx < 0) break
+
+    const box = boxes[bestIdx]
+    const ranges = [0, 1, 2].map(c => box.max[c] - box.min[c])
+    const channel = ranges.indexOf(Math.max(...ranges))
+    const sorted = Array.from(box.indices).sort((a, b) => samples[a * 3 + channel] - samples[b * 3 + channel])
+    const mid = sorted.length >> 1
+    boxes.splice(bestIdx, 1,
+      makeBox(samples, Uint32Array.from(sorted.slice(0, mid))),
+      makeBox(samples, Uint32Array.from(sorted.slice(mid))))
+  }
+
+  return boxes.map(box => {
+    const sum = [0, 0, 0]
+    for (const i of box.indices) {
+      sum[0] += samples[i * 3]
+      sum[1] += samples[i * 3 + 1]
+      sum[2] += samples[i * 3 + 2]
+    }
+    const n = box.indices.length
+    return [Math.round(sum[0] / n), Math.round(sum[1] / n), Math.round(sum[2] / n)] as RGB
+  })
+}
+
+/** Lloyd iterations seeded with the median-cut result, so output is deterministic */
+function kmeans(samples: Uint8Array, seeds: RGB[]): RGB[] {
+  const k = seeds.length
+  const centers = seeds.map(c => [...c])
+  const n = samples.length / 3
+  const sums = new Float64Array(k * 3)
+  const counts = new Uint32Array(k)
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    sums.fill(0)
+    counts.fill(0)
+    for (let i = 0; i < n; i++) {
+      const r = samples[i * 3], g = samples[i * 3 + 1], b = samples[i * 3 + 2]
+      let best = 0
+      let bestDist = Infinity
+      for (let j = 0; j < k; j++) {
+        const c = centers[j]
+        const dr = r - c[0], dg = g - c[1], db = b - c[2]
+        const d = dr * dr + dg * dg + db * db
+        if (d < bestDist) { bestDist = d; best = j }
+      }
+      sums[best * 3] += r
+      sums[best * 3 + 1] += g
+      sums[best * 3 + 2] += b
+      counts[best]++
+    }
+
+    let moved = false
+    for (let j = 0; j < k; j++) {
+      // Empty clusters keep their previous center
+      if (counts[j] === 0) continue
+      for (let c = 0; c < 3; c++) {
+        const v = sums[j * 3 + c] / counts[j]
+        if (Math.abs(v - centers[j][c]) > 0.5) moved = true
+        centers[j][c] = v
+      }
+    }
+    if (!moved) break
+  }
+
+  return centers.map(c => [Math.round(c[0]), Math.round(c[1]), Math.round(c[2])] as RGB)
+}
+
+function luma([r, g, b]: RGB): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b
+}
@@ -0,0 +1,123 @@
+/**
+ * Source adjustments
+ * Tone and color corrections applied to the source pixels before sampling, so muddy inputs
+ * quantize cleanly without a round trip through another editor. Order: sharpen (on the original
+ * detail), then brightness → contrast → gamma → saturation/hue → invert → posterize. Alpha is untouched.
+ */
+
+import type { RawImage } from './mosaic'
+import { boxBlur } from './mask'
+
+export interface Adjustments {
+  brightness: number // -1-1, added as a share of full scale
+  contrast: number // -1-1, 0 = unchanged
+  gamma: number // 0.2-5, 1 = unchanged; above 1 brightens midtones
+  saturation: number // -1-1, -1 = grayscale
+  hue: number // degrees, -180-180
+  posterize: number // levels per channel, 0 = off
+  sharpen: number // unsharp-mask amount, 0-2
+  sharpenRadius: number // px
+  invert: boolean
+}
+
+export const NO_ADJUSTMENTS: Adjustments = {
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  saturation: 0,
+  hue: 0,
+  posterize: 0,
+  sharpen: 0,
+  sharpenRadius: 2,
+  invert: false,
+}
+
+/** True when the adjustments leave every pixel unchanged */
+export function isNeutral(adj: Adjustments): boolean {
+  return adj.brightness === 0 && adj.contrast === 0 && adj.gamma === 1 && adj.saturation === 0 &&
+    adj.hue === 0 && adj.posterize < 2 && adj.sharpen === 0 && !adj.invert
+}
+
+/** Adjusted copy of the image; neutral adjustments return the image itself */
+export function adjustImage(image: RawImage, adj: Adjustments): RawImage {
+  if (isNeutral(adj)) return image
+  const { width, height } = image
+  const src = adj.sharpen > 0 ? unsharp(image, adj.sharpen, adj.sharpenRadius) : image.data
+  const data = new Uint8ClampedArray(src.length)
+
+  // Brightness, contrast and gamma act on each channel alike, so they fold into one lookup table
+  const tone = new Float32Array(256)
+  const slope = Math.tan(((adj.contrast + 1) * Math.PI) / 4) // 0 at -1, 1 at 0, ∞ at +1
+  for (let v = 0; v < 256; v++) {
+    let t = v / 255 + adj.brightness
+    t = (t - 0.5) * slope + 0.5
+    t = Math.max(0, Math.min(1, t)) ** (1 / adj.gamma)
+    tone[v] = t * 255
+  }
+  const m = colorMatrix(adj.saturation, adj.hue)
+  const step = adj.posterize >= 2 ? 255 / (adj.posterize - 1) : 0
+
+  for (let pos = 0; pos < src.length; pos += 4) {
+    const r = tone[src[pos]], g = tone[src[pos + 1]], b = tone[src[pos + 2]]
+    const out = [
+      m[0] * r + m[1] * g + m[2] * b,
+      m[3] * r + m[4] * g + m[5] * b,
+      m[6] * r + m[7] * g + m[8] * b,
+    ]
+    for (let c = 0; c < 3; c++) {
+      let v = Math.max(0, Math.min(255, out[c]))
+      if (adj.invert) v = 255 - v
+      if (step) v = Math.round(v / step) * step
+      data[pos + c] = v
+    }
+    data[pos + 3] = src[pos + 3]
+  }
+  return { data, width, height }
+}
+
+/**
+ * Saturation then hue rotation as one 3×3 RGB matrix (the CSS filter saturate()/hue-rotate()
+ * matrices), which keeps luminance while moving chroma.
+ */
+function colorMatrix(saturation: number, hue: number): number[] {
+  const s = 1 + saturation
+  const sat = [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ]
+  const a = (hue * Math.PI) / 180
+  const cos = Math.cos(a)
+  const sin = Math.sin(a)
+  const rot = [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ]
+  const out: number[] = []
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out.push(rot[row * 3] * sat[col] + rot[row * 3 + 1] * sat[3 + col] + rot[row * 3 + 2] * sat[6 + col])
+    }
+  }
+  return out
+}
+
+/** Unsharp mask: push each channel away from its blurred copy (three box blurs ≈ a Gaussian) */
+function unsharp({ data, width, height }: RawImage, amount: number, radius: number): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(data)
+  const r = Math.max(1, Math.round(radius))
+  const channel = new Uint8Array(width * height)
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < channel.length; i++) channel[i] = data[i * 4 + c]
+    let blurred: Uint8Array = channel
+    for (let pass = 0; pass < 3; pass++) {
+      blurred = boxBlur(blurred, width, height, r, true)
+      blurred = boxBlur(blurred, width, height, r, false)
+    }
+    for (let i = 0; i < channel.length; i++) {
+      out[i * 4 + c] = channel[i] + amount * (channel[i] - blurred[i])
+    }
+  }
+  return out
+}
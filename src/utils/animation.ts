@@ -0,0 +1,39 @@
+/**
+ * Animated output formats
+ * GIF is palette-limited to 256 colors with 10 ms delays; APNG and WebP keep full color and ms timing
+ */
+
+import type { Palette, RawImage } from './mosaic'
+import { encodeGif } from './gif'
+import { encodeApng } from './apng'
+import { encodeWebp } from './webp'
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp'
+
+export const ANIMATION_FORMATS: { id: AnimationFormat; name: string; ext: string }[] = [
+  { id: 'gif', name: 'GIF', ext: 'gif' },
+  { id: 'apng', name: 'APNG', ext: 'png' },
+  { id: 'webp', name: 'WebP', ext: 'webp' },
+]
+
+/**
+ * `loopCount` uses the GIF convention everywhere: 0 = forever, null = play once, n = n extra repeats.
+ * `palette` is the mosaic's palette, which GIFs then use as their exact color table.
+ */
+export async function encodeAnimation(
+  format: AnimationFormat,
+  frames: { imageData: RawImage; delay: number }[],
+  width: number,
+  height: number,
+  loopCount: number | null = 0,
+  palette?: Palette
+): Promise<Blob> {
+  switch (format) {
+    case 'gif':
+      return encodeGif(frames, width, height, loopCount, palette?.colors)
+    case 'apng':
+      return encodeApng(frames, width, height, loopCount)
+    case 'webp':
+      return encodeWebp(frames, width, height, loopCount)
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * APNG encoder
+ * Full-color animated PNG: every frame is stored whole as RGBA, so there is no palette limit
+ * and delays keep millisecond precision. Compression uses the platform's CompressionStream,
+ * available in browsers, workers and Node 18+.
+ */
+
+import type { RawImage } from './mosaic'
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10]
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/** CRC-32 of bytes[start, end), as used by PNG chunks and ZIP entries */
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let c = 0xffffffff
+  for (let i = start; i < end; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/** Length, type, data, CRC over type + data */
+function chunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out, 4, 8 + data.length))
+  return out
+}
+
+function bytes(size: number, fill: (view: DataView) => void): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(size)
+  fill(new DataView(out.buffer))
+  return out
+}
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Scanlines with a per-row filter byte. Each row takes whichever of None/Sub/Up gives the smallest
+ * sum of absolute residuals — the usual heuristic, and flat pixel-art rows mostly pick Up or Sub.
+ */
+function filterScanlines({ data, width, height }: RawImage): Uint8Array<ArrayBuffer> {
+  const stride = width * 4
+  const out = new Uint8Array((stride + 1) * height)
+  const candidate = [new Uint8Array(stride), new Uint8Array(stride), new Uint8Array(stride)]
+  for (let y = 0; y < height; y++) {
+    const row = y * stride
+    let best = 0
+    let bestScore = Infinity
+    for (let f = 0; f < 3; f++) {
+      const line = candidate[f]
+      let score = 0
+      for (let i = 0; i < stride; i++) {
+        const left = i >= 4 ? data[row + i - 4] : 0
+        const up = y > 0 ? data[row + i - stride] : 0
+        const v = (data[row + i] - (f === 1 ? left : f === 2 ? up : 0)) & 0xff
+        line[i] = v
+        score += v < 128 ? v : 256 - v
+      }
+      if (score < bestScore) {
+        bestScore = score
+        best = f
+      }
+    }
+    out[y * (stride + 1)] = best
+    out.set(candidate[best], y * (stride + 1) + 1)
+  }
+  return out
+}
+
+/**
+ * Encode frames as an APNG. `loopCount` follows the GIF convention (0 = forever, null = play once,
+ * n = n extra repeats); APNG counts total plays instead.
+ */
+export async function encodeApng(
+  frames: { imageData: RawImage; delay: number }[],
+  width: number,
+  height: number,
+  loopCount: number | null = 0
+): Promise<Blob> {
+  const plays = loopCount === null ? 1 : loopCount === 0 ? 0 : loopCount + 1
+  const parts = [new Uint8Array(SIGNATURE)]
+
+  parts.push(chunk('IHDR', bytes(13, v => {
+    v.setUint32(0, width)
+    v.setUint32(4, height)
+    v.setUint8(8, 8) // bit depth
+    v.setUint8(9, 6) // RGBA
+  })))
+  parts.push(chunk('acTL', bytes(8, v => {
+    v.setUint32(0, frames.length)
+    v.setUint32(4, plays)
+  })))
+
+  // fcTL and fdAT share one sequence counter
+  let sequence = 0
+  for (let i = 0; i < frames.length; i++) {
+    const { imageData, delay } = frames[i]
+    parts.push(chunk('fcTL', bytes(26, v => {
+      v.setUint32(0, sequence++)
+      v.setUint32(4, width)
+      v.setUint32(8, height)
+      v.setUint16(20, Math.min(65535, Math.round(delay))) // delay numerator
+      v.setUint16(22, 1000) // delay denominator: milliseconds
+      // dispose_op 0 (none), blend_op 0 (source): each frame replaces the canvas
+    })))
+    const compressed = await deflate(filterScanlines(imageData))
+    if (i === 0) {
+      parts.push(chunk('IDAT', compressed))
+    } else {
+      const data = new Uint8Array(4 + compressed.length)
+      new DataView(data.buffer).setUint32(0, sequence++)
+      data.set(compressed, 4)
+      parts.push(chunk('fdAT', data))
+    }
+  }
+  parts.push(chunk('IEND', new Uint8Array(0)))
+
+  return new Blob(parts, { type: 'image/png' })
+}
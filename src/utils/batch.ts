@@ -0,0 +1,50 @@
+/**
+ * Batch processing
+ * Output names for a queue of images rendered with one look and bundled into a ZIP
+ */
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'error'
+
+export interface BatchItem {
+  id: number
+  file: File
+  thumb: string // object URL of the file, revoked when the item leaves the queue
+  status: BatchStatus
+}
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  pending: '等待',
+  processing: '处理中',
+  done: '完成',
+  error: '失败',
+}
+
+export const DEFAULT_NAME_PATTERN = '{name}-mosaic'
+
+/**
+ * File name for the index-th of `count` results. `{name}` is the source name without extension,
+ * `{index}` the 1-based position padded to the width of `count`. Characters that are not allowed
+ * in file names become underscores.
+ */
+export function formatBatchName(pattern: string, sourceName: string, index: number, count: number): string {
+  const name = sourceName.replace(/\.[^.]+$/, '')
+  const number = String(index + 1).padStart(String(count).length, '0')
+  const base = (pattern.trim() || DEFAULT_NAME_PATTERN)
+    .replace(/\{name\}/g, name)
+    .replace(/\{index\}/g, number)
+    .replace(/[\\/:*?"<>|]/g, '_')
+  return `${base}.png`
+}
+
+/** Names made unique by appending " (2)", " (3)"… to repeats, so ZIP entries never collide */
+export function uniqueNames(names: string[]): string[] {
+  const seen = new Set<string>()
+  return names.map(name => {
+    let unique = name
+    for (let n = 2; seen.has(unique.toLowerCase()); n++) {
+      unique = name.replace(/(\.[^.]+)?$/, ext => ` (${n})${ext}`)
+    }
+    seen.add(unique.toLowerCase())
+    return unique
+  })
+}
@@ -0,0 +1,142 @@
+/**
+ * Fuse bead and brick catalogs
+ * Perler and Hama bead colors and LEGO plate colors as Palettes with product codes.
+ * sRGB values are approximations of the physical parts as published in community color charts.
+ */
+
+import type { Palette } from './mosaic'
+
+type Part = [code: string, name: string, r: number, g: number, b: number]
+
+function catalog(name: string, parts: Part[]): Palette {
+  return {
+    name,
+    colors: parts.map(([, , r, g, b]) => [r, g, b]),
+    codes: parts.map(([code]) => code),
+    labels: parts.map(([, label]) => label),
+  }
+}
+
+export const PERLER_PALETTE = catalog('Perler 拼豆', [
+  ['P01', 'White', 241, 241, 241],
+  ['P02', 'Cream', 224, 222, 169],
+  ['P56', 'Pastel Yellow', 249, 230, 128],
+  ['P03', 'Yellow', 236, 216, 0],
+  ['P57', 'Cheddar', 241, 170, 12],
+  ['P90', 'Butterscotch', 209, 124, 44],
+  ['P04', 'Orange', 237, 97, 32],
+  ['P59', 'Hot Coral', 255, 59, 71],
+  ['P05', 'Red', 191, 38, 54],
+  ['P96', 'Cranapple', 130, 43, 59],
+  ['P63', 'Blush', 255, 130, 133],
+  ['P33', 'Peach', 238, 186, 178],
+  ['P79', 'Light Pink', 246, 179, 221],
+  ['P06', 'Bubble Gum', 221, 102, 154],
+  ['P83', 'Pink', 228, 73, 145],
+  ['P38', 'Magenta', 242, 45, 124],
+  ['P88', 'Raspberry', 165, 48, 97],
+  ['P60', 'Plum', 162, 75, 156],
+  ['P54', 'Pastel Lavender', 138, 114, 193],
+  ['P07', 'Purple', 96, 64, 137],
+  ['P70', 'Periwinkle', 100, 124, 190],
+  ['P93', 'Blueberry Cream', 133, 160, 208],
+  ['P52', 'Pastel Blue', 98, 157, 220],
+  ['P09', 'Light Blue', 51, 112, 192],
+  ['P08', 'Dark Blue', 43, 63, 135],
+  ['P58', 'Toothpaste', 147, 200, 212],
+  ['P62', 'Turquoise', 6, 152, 180],
+  ['P91', 'Parrot Green', 6, 124, 129],
+  ['P11', 'Light Green', 86, 186, 159],
+  ['P53', 'Pastel Green', 118, 200, 130],
+  ['P97', 'Prickly Pear', 189, 218, 1],
+  ['P61', 'Kiwi Lime', 108, 190, 19],
+  ['P80', 'Bright Green', 78, 174, 60],
+  ['P10', 'Dark Green', 28, 117, 62],
+  ['P98', 'Sand', 228, 182, 133],
+  ['P35', 'Tan', 188, 147, 100],
+  ['P21', 'Light Brown', 129, 93, 52],
+  ['P20', 'Rust', 140, 55, 44],
+  ['P12', 'Brown', 81, 57, 49],
+  ['P17', 'Grey', 138, 141, 145],
+  ['P92', 'Dark Grey', 77, 81, 86],
+  ['P18', 'Black', 46, 47, 50],
+])
+
+export const HAMA_PALETTE = catalog('Hama 拼豆', [
+  ['H01', 'White', 236, 237, 237],
+  ['H02', 'Cream', 240, 232, 185],
+  ['H43', 'Pastel Yellow', 250, 239, 132],
+  ['H03', 'Yellow', 240, 185, 1],
+  ['H04', 'Orange', 230, 79, 39],
+  ['H44', 'Pastel Red', 247, 115, 110],
+  ['H05', 'Red', 182, 49, 54],
+  ['H22', 'Dark Red', 160, 50, 54],
+  ['H30', 'Burgundy', 105, 45, 55],
+  ['H29', 'Claret', 185, 57, 94],
+  ['H06', 'Pink', 225, 136, 159],
+  ['H48', 'Pastel Pink', 222, 146, 196],
+  ['H26', 'Salmon', 222, 131, 125],
+  ['H45', 'Pastel Purple', 158, 130, 197],
+  ['H07', 'Purple', 105, 74, 130],
+  ['H46', 'Pastel Blue', 128, 172, 222],
+  ['H49', 'Azure', 42, 148, 198],
+  ['H09', 'Light Blue', 48, 92, 176],
+  ['H08', 'Dark Blue', 44, 70, 144],
+  ['H31', 'Turquoise', 107, 181, 189],
+  ['H47', 'Pastel Green', 147, 213, 161],
+  ['H11', 'Light Green', 73, 174, 137],
+  ['H10', 'Green', 37, 104, 71],
+  ['H28', 'Dark Green', 54, 63, 56],
+  ['H27', 'Beige', 222, 180, 139],
+  ['H60', 'Teddy Bear', 180, 123, 54],
+  ['H21', 'Light Brown', 165, 105, 63],
+  ['H75', 'Tan', 147, 112, 81],
+  ['H20', 'Reddish Brown', 127, 51, 42],
+  ['H12', 'Brown', 83, 65, 57],
+  ['H70', 'Light Grey', 191, 191, 191],
+  ['H17', 'Grey', 131, 136, 138],
+  ['H71', 'Dark Grey', 71, 71, 71],
+  ['H18', 'Black', 46, 47, 49],
+])
+
+// Codes are LEGO color IDs; names are the official LEGO color names
+export const LEGO_PALETTE = catalog('LEGO 积木', [
+  ['1', 'White', 242, 243, 242],
+  ['226', 'Cool Yellow', 255, 240, 58],
+  ['24', 'Bright Yellow', 242, 205, 55],
+  ['191', 'Flame Yellowish Orange', 248, 187, 61],
+  ['106', 'Bright Orange', 254, 138, 24],
+  ['38', 'Dark Orange', 169, 85, 0],
+  ['21', 'Bright Red', 201, 26, 9],
+  ['154', 'Dark Red', 114, 14, 15],
+  ['222', 'Light Purple', 228, 173, 200],
+  ['221', 'Bright Purple', 200, 112, 160],
+  ['124', 'Bright Reddish Violet', 146, 57, 120],
+  ['325', 'Lavender', 205, 164, 222],
+  ['324', 'Medium Lavender', 160, 110, 185],
+  ['268', 'Medium Lilac', 63, 54, 145],
+  ['212', 'Light Royal Blue', 159, 195, 233],
+  ['102', 'Medium Blue', 90, 147, 219],
+  ['321', 'Dark Azur', 7, 139, 201],
+  ['23', 'Bright Blue', 0, 85, 191],
+  ['140', 'Earth Blue', 10, 52, 99],
+  ['323', 'Aqua', 173, 195, 192],
+  ['322', 'Medium Azur', 54, 174, 191],
+  ['326', 'Spring Yellowish Green', 223, 238, 165],
+  ['119', 'Bright Yellowish Green', 187, 233, 11],
+  ['37', 'Bright Green', 75, 159, 74],
+  ['28', 'Dark Green', 35, 120, 65],
+  ['141', 'Earth Green', 24, 70, 50],
+  ['151', 'Sand Green', 160, 188, 172],
+  ['330', 'Olive Green', 155, 154, 90],
+  ['283', 'Light Nougat', 246, 215, 179],
+  ['5', 'Brick Yellow', 228, 205, 158],
+  ['138', 'Sand Yellow', 149, 138, 115],
+  ['18', 'Nougat', 208, 145, 104],
+  ['312', 'Medium Nougat', 170, 125, 85],
+  ['192', 'Reddish Brown', 88, 42, 18],
+  ['308', 'Dark Brown', 53, 33, 0],
+  ['194', 'Medium Stone Grey', 160, 165, 169],
+  ['199', 'Dark Stone Grey', 108, 110, 104],
+  ['26', 'Black', 5, 19, 29],
+])
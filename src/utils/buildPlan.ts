@@ -0,0 +1,124 @@
+/**
+ * Build plans for fuse bead boards and brick baseplates
+ * Splits the block grid into fixed-size boards and counts parts per color, per board and overall
+ */
+
+import { matchGridToPalette, type MosaicGrid, type Palette } from './mosaic'
+import type { ColorMetric } from './color'
+import { HAMA_PALETTE, LEGO_PALETTE, PERLER_PALETTE } from './beads'
+
+export type BoardSize = 29 | 32 | 48
+
+export const BOARD_SIZES: { id: BoardSize; name: string }[] = [
+  { id: 29, name: '29×29' }, // Perler / Hama large square pegboard
+  { id: 32, name: '32×32' }, // LEGO baseplate
+  { id: 48, name: '48×48' }, // LEGO large baseplate
+]
+
+/** Palettes that describe buildable parts */
+export const BUILD_PALETTES: Palette[] = [PERLER_PALETTE, HAMA_PALETTE, LEGO_PALETTE]
+
+export interface PartCount {
+  code: string
+  name: string
+  color: [number, number, number]
+  count: number
+}
+
+export interface Board {
+  label: string // row letter + column number, e.g. "B3"
+  x: number // first column/row of the board in the grid
+  y: number
+  w: number // cells actually used; edge boards can be partial
+  h: number
+  parts: PartCount[]
+}
+
+export interface BuildPlan {
+  cols: number
+  rows: number
+  boardSize: BoardSize
+  boardCols: number
+  boardRows: number
+  /** Palette index per cell (row-major) */
+  cells: Int16Array
+  palette: Palette
+  boards: Board[]
+  /** All parts for the whole build, most used first */
+  parts: PartCount[]
+}
+
+export function buildPlan(
+  grid: MosaicGrid,
+  palette: Palette,
+  boardSize: BoardSize,
+  metric: ColorMetric = 'ciede2000'
+): BuildPlan {
+  const { cols, rows } = grid
+  const cells = matchGridToPalette(grid, palette, metric)
+  const boardCols = Math.ceil(cols / boardSize)
+  const boardRows = Math.ceil(rows / boardSize)
+
+  const boards: Board[] = []
+  for (let by = 0; by < boardRows; by++) {
+    for (let bx = 0; bx < boardCols; bx++) {
+      const x = bx * boardSize
+      const y = by * boardSize
+      const w = Math.min(boardSize, cols - x)
+      const h = Math.min(boardSize, rows - y)
+      const counts = new Map<number, number>()
+      for (let row = y; row < y + h; row++) {
+        for (let col = x; col < x + w; col++) {
+          const idx = cells[row * cols + col]
+          counts.set(idx, (counts.get(idx) ?? 0) + 1)
+        }
+      }
+      boards.push({ label: `${rowLabel(by)}${bx + 1}`, x, y, w, h, parts: partList(palette, counts) })
+    }
+  }
+
+  const totals = new Map<number, number>()
+  for (const idx of cells) totals.set(idx, (totals.get(idx) ?? 0) + 1)
+
+  return { cols, rows, boardSize, boardCols, boardRows, cells, palette, boards, parts: partList(palette, totals) }
+}
+
+/** Bill of materials: one line per part with the overall count and a column per board */
+export function planToCsv(plan: BuildPlan): string {
+  const header = ['Code', 'Name', 'Hex', 'Total', ...plan.boards.map(b => b.label)]
+  const lines = [header]
+  for (const part of plan.parts) {
+    lines.push([
+      part.code,
+      part.name,
+      '#' + part.color.map(v => v.toString(16).padStart(2, '0')).join(''),
+      String(part.count),
+      ...plan.boards.map(b => String(b.parts.find(p => p.code === part.code)?.count ?? 0)),
+    ])
+  }
+  lines.push(['', 'Total', '', String(plan.cols * plan.rows), ...plan.boards.map(b => String(b.w * b.h))])
+  // CRLF and a quoted field whenever needed, as spreadsheet apps expect
+  return lines.map(fields => fields.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+function partList(palette: Palette, counts: Map<number, number>): PartCount[] {
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([idx, count]) => ({
+      code: palette.codes?.[idx] ?? `#${idx + 1}`,
+      name: palette.labels?.[idx] ?? '',
+      color: palette.colors[idx],
+      count,
+    }))
+}
+
+/** A, B, … Z, AA, AB, … */
+function rowLabel(i: number): string {
+  let s = ''
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s
+  return s
+}
+
+function csvField(s: string): string {
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
@@ -0,0 +1,203 @@
+/**
+ * Color spaces and distance metrics for palette matching
+ * RGB, weighted "redmean" RGB, CIELAB ΔE76 / ΔE2000 and OKLab
+ */
+
+export type ColorMetric = 'rgb' | 'redmean' | 'cie76' | 'ciede2000' | 'oklab'
+
+export const COLOR_METRICS: { id: ColorMetric; name: string }[] = [
+  { id: 'rgb', name: 'RGB' },
+  { id: 'redmean', name: '加权 RGB' },
+  { id: 'cie76', name: 'ΔE76' },
+  { id: 'ciede2000', name: 'ΔE2000' },
+  { id: 'oklab', name: 'OKLab' },
+]
+
+type RGB = [number, number, number]
+type Vec3 = [number, number, number]
+
+// Clear the lookup cache once it grows past this many distinct colors
+const MAX_CACHE_SIZE = 1 << 16
+
+function srgbToLinear(c: number): number {
+  const v = c / 255
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4
+}
+
+/** sRGB → CIELAB (D65) */
+export function rgbToLab(r: number, g: number, b: number): Vec3 {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b)
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116)
+  const fx = f(x), fy = f(y), fz = f(z)
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+/** sRGB → OKLab */
+export function rgbToOklab(r: number, g: number, b: number): Vec3 {
+  const lr = srgbToLinear(r), lg = srgbToLinear(g), lb = srgbToLinear(b)
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ]
+}
+
+/** CIEDE2000 color difference between two CIELAB colors */
+export function deltaE2000([l1, a1, b1]: Vec3, [l2, a2, b2]: Vec3): number {
+  const rad = Math.PI / 180
+  const c1 = Math.hypot(a1, b1), c2 = Math.hypot(a2, b2)
+  const cBar = (c1 + c2) / 2
+  const g = 0.5 * (1 - Math.sqrt(cBar ** 7 / (cBar ** 7 + 25 ** 7)))
+  const ap1 = a1 * (1 + g), ap2 = a2 * (1 + g)
+  const cp1 = Math.hypot(ap1, b1), cp2 = Math.hypot(ap2, b2)
+  const hp = (a: number, b: number) => {
+    if (a === 0 && b === 0) return 0
+    const h = Math.atan2(b, a) / rad
+    return h < 0 ? h + 360 : h
+  }
+  const hp1 = hp(ap1, b1), hp2 = hp(ap2, b2)
+
+  const dL = l2 - l1
+  const dC = cp2 - cp1
+  let dh = 0
+  if (cp1 * cp2 !== 0) {
+    dh = hp2 - hp1
+    if (dh > 180) dh -= 360
+    else if (dh < -180) dh += 360
+  }
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * rad)
+
+  const lBar = (l1 + l2) / 2
+  const cpBar = (cp1 + cp2) / 2
+  let hBar = hp1 + hp2
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) > 180) hBar += hp1 + hp2 < 360 ? 360 : -360
+    hBar /= 2
+  }
+
+  const t = 1
+    - 0.17 * Math.cos((hBar - 30) * rad)
+    + 0.24 * Math.cos(2 * hBar * rad)
+    + 0.32 * Math.cos((3 * hBar + 6) * rad)
+    - 0.20 * Math.cos((4 * hBar - 63) * rad)
+  const dTheta = 30 * Math.exp(-(((hBar - 275) / 25) ** 2))
+  const rc = 2 * Math.sqrt(cpBar ** 7 / (cpBar ** 7 + 25 ** 7))
+  const sl = 1 + (0.015 * (lBar - 50) ** 2) / Math.sqrt(20 + (lBar - 50) ** 2)
+  const sc = 1 + 0.045 * cpBar
+  const sh = 1 + 0.015 * cpBar * t
+  const rt = -Math.sin(2 * dTheta * rad) * rc
+
+  return Math.sqrt(
+    (dL / sl) ** 2 + (dC / sc) ** 2 + (dH / sh) ** 2 + rt * (dC / sc) * (dH / sh)
+  )
+}
+
+/** Finds the nearest palette entry under a metric, memoizing lookups per integer RGB */
+export interface PaletteMatcher {
+  /** Index into the palette of the closest color */
+  closest(r: number, g: number, b: number): number
+}
+
+const matcherCache = new WeakMap<RGB[], Map<ColorMetric, PaletteMatcher>>()
+
+/**
+ * Get a (cached) matcher for a palette. Matchers live as long as the palette array,
+ * so every block of every GIF frame shares one precomputed palette and lookup table.
+ */
+export function paletteMatcher(palette: RGB[], metric: ColorMetric): PaletteMatcher {
+  let byMetric = matcherCache.get(palette)
+  if (!byMetric) {
+    byMetric = new Map()
+    matcherCache.set(palette, byMetric)
+  }
+  let matcher = byMetric.get(metric)
+  if (!matcher) {
+    matcher = createMatcher(palette, metric)
+    byMetric.set(metric, matcher)
+  }
+  return matcher
+}
+
+function createMatcher(palette: RGB[], metric: ColorMetric): PaletteMatcher {
+  const distance = distanceFunction(palette, metric)
+  const lookup = new Map<number, number>()
+
+  return {
+    closest(r, g, b) {
+      const ri = clampByte(r), gi = clampByte(g), bi = clampByte(b)
+      const key = (ri << 16) | (gi << 8) | bi
+      const hit = lookup.get(key)
+      if (hit !== undefined) return hit
+
+      let best = 0
+      let minDist = Infinity
+      for (let i = 0; i < palette.length; i++) {
+        const d = distance(ri, gi, bi, i)
+        if (d < minDist) { minDist = d; best = i }
+      }
+      if (lookup.size >= MAX_CACHE_SIZE) lookup.clear()
+      lookup.set(key, best)
+      return best
+    },
+  }
+}
+
+/** Returns distance(r, g, b, paletteIndex) with the palette side precomputed */
+function distanceFunction(
+  palette: RGB[],
+  metric: ColorMetric
+): (r: number, g: number, b: number, i: number) => number {
+  switch (metric) {
+    case 'rgb':
+      return (r, g, b, i) => {
+        const c = palette[i]
+        const dr = r - c[0], dg = g - c[1], db = b - c[2]
+        return dr * dr + dg * dg + db * db
+      }
+
+    case 'redmean':
+      return (r, g, b, i) => {
+        const c = palette[i]
+        const rMean = (r + c[0]) / 2
+        const dr = r - c[0], dg = g - c[1], db = b - c[2]
+        return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db
+      }
+
+    case 'cie76':
+    case 'oklab': {
+      const convert = metric === 'cie76' ? rgbToLab : rgbToOklab
+      const points = palette.map(c => convert(c[0], c[1], c[2]))
+      // The input side is converted once per lookup, then compared to every entry
+      let lastKey = -1
+      let p: Vec3 = [0, 0, 0]
+      return (r, g, b, i) => {
+        const key = (r << 16) | (g << 8) | b
+        if (key !== lastKey) { p = convert(r, g, b); lastKey = key }
+        const q = points[i]
+        const d0 = p[0] - q[0], d1 = p[1] - q[1], d2 = p[2] - q[2]
+        return d0 * d0 + d1 * d1 + d2 * d2
+      }
+    }
+
+    case 'ciede2000': {
+      const points = palette.map(c => rgbToLab(c[0], c[1], c[2]))
+      let lastKey = -1
+      let p: Vec3 = [0, 0, 0]
+      return (r, g, b, i) => {
+        const key = (r << 16) | (g << 8) | b
+        if (key !== lastKey) { p = rgbToLab(r, g, b); lastKey = key }
+        return deltaE2000(p, points[i])
+      }
+    }
+  }
+}
+
+function clampByte(v: number): number {
+  return v <= 0 ? 0 : v >= 255 ? 255 : Math.round(v)
+}
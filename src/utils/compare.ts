@@ -0,0 +1,47 @@
+/**
+ * Comparison view
+ * Ways to put the original next to the mosaic, and the zoom/pan state of the view. A view is a
+ * scale and a translation of the fitted image inside its frame (w × h CSS px); it always covers
+ * the frame, so the image can't be dragged out of sight.
+ */
+
+export type CompareMode = 'slider' | 'side' | 'hold' | 'onion'
+
+export const COMPARE_MODES: { id: CompareMode; name: string }[] = [
+  { id: 'slider', name: '滑块' },
+  { id: 'side', name: '并排' },
+  { id: 'hold', name: '按住对比' },
+  { id: 'onion', name: '叠加' },
+]
+
+export interface View {
+  zoom: number // 1 = fitted
+  x: number // offset of the image's top-left corner in CSS px
+  y: number
+}
+
+export const FIT_VIEW: View = { zoom: 1, x: 0, y: 0 }
+
+export const MAX_ZOOM = 64
+
+/** The view kept inside the frame: zoom in [1, MAX_ZOOM], no gap at any edge */
+export function clampView({ zoom, x, y }: View, w: number, h: number): View {
+  const z = Math.max(1, Math.min(MAX_ZOOM, zoom))
+  return {
+    zoom: z,
+    x: Math.max(w * (1 - z), Math.min(0, x)),
+    y: Math.max(h * (1 - z), Math.min(0, y)),
+  }
+}
+
+/** Zoom by `factor` keeping the image point under (px, py) in place */
+export function zoomView(view: View, factor: number, px: number, py: number, w: number, h: number): View {
+  const zoom = Math.max(1, Math.min(MAX_ZOOM, view.zoom * factor))
+  const k = zoom / view.zoom
+  return clampView({ zoom, x: px - (px - view.x) * k, y: py - (py - view.y) * k }, w, h)
+}
+
+/** Move the image by (dx, dy) CSS px */
+export function panView(view: View, dx: number, dy: number, w: number, h: number): View {
+  return clampView({ zoom: view.zoom, x: view.x + dx, y: view.y + dy }, w, h)
+}
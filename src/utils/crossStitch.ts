@@ -0,0 +1,62 @@
+/**
+ * Cross-stitch pattern model
+ * Maps every block of a MosaicGrid to a DMC thread and assigns each thread a chart symbol
+ */
+
+import { matchGridToPalette, type MosaicGrid } from './mosaic'
+import type { ColorMetric } from './color'
+import { DMC_PALETTE } from './dmc'
+
+export const FABRIC_COUNTS = [14, 16, 18] as const
+export type FabricCount = (typeof FABRIC_COUNTS)[number]
+
+// Chart symbols, most legible first. All are in WinAnsi so the PDF chart can use a standard font.
+const SYMBOLS = '+×#%@&$§*=÷±¤!?/\\<>' + 'ABCDEFGHJKLMNPRSTUVWXYZ' + 'abdefghkmnpqrstuy' + '23456789'
+
+export interface PatternThread {
+  code: string
+  name: string
+  color: [number, number, number]
+  symbol: string
+  stitches: number
+}
+
+export interface CrossStitchPattern {
+  cols: number
+  rows: number
+  /** Thread index per stitch (row-major) */
+  cells: Uint16Array
+  /** Threads used, most stitches first */
+  threads: PatternThread[]
+}
+
+/** Map grid cells to their closest DMC threads */
+export function buildPattern(grid: MosaicGrid, metric: ColorMetric = 'ciede2000'): CrossStitchPattern {
+  const { cols, rows } = grid
+  const dmcIndex = matchGridToPalette(grid, DMC_PALETTE, metric)
+  const counts = new Map<number, number>()
+  for (const idx of dmcIndex) counts.set(idx, (counts.get(idx) ?? 0) + 1)
+
+  const used = Array.from(counts).sort((a, b) => b[1] - a[1])
+  const slot = new Map(used.map(([idx], i) => [idx, i]))
+  const threads = used.map(([idx, stitches], i): PatternThread => ({
+    code: DMC_PALETTE.codes![idx],
+    name: DMC_PALETTE.labels![idx],
+    color: DMC_PALETTE.colors[idx],
+    // Past the symbol list, fall back to two-character numbered symbols
+    symbol: SYMBOLS[i] ?? String(i + 1),
+    stitches,
+  }))
+
+  const cells = new Uint16Array(cols * rows)
+  for (let i = 0; i < cells.length; i++) cells[i] = slot.get(dmcIndex[i])!
+
+  return { cols, rows, cells, threads }
+}
+
+/** Finished design size for a fabric count (stitches per inch) */
+export function finishedSize(pattern: CrossStitchPattern, count: FabricCount): { inches: [number, number]; cm: [number, number] } {
+  const w = pattern.cols / count
+  const h = pattern.rows / count
+  return { inches: [w, h], cm: [w * 2.54, h * 2.54] }
+}
@@ -0,0 +1,169 @@
+/**
+ * Dithering on the mosaic block grid
+ * Error diffusion (Floyd–Steinberg, Atkinson, Sierra) and ordered Bayer dithering
+ */
+
+export type DitherMode =
+  | 'none'
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'sierra'
+  | 'bayer2'
+  | 'bayer4'
+  | 'bayer8'
+
+export const DITHERS: { id: DitherMode; name: string }[] = [
+  { id: 'none', name: '无' },
+  { id: 'floyd-steinberg', name: 'Floyd–Steinberg' },
+  { id: 'atkinson', name: 'Atkinson' },
+  { id: 'sierra', name: 'Sierra' },
+  { id: 'bayer2', name: 'Bayer 2×2' },
+  { id: 'bayer4', name: 'Bayer 4×4' },
+  { id: 'bayer8', name: 'Bayer 8×8' },
+]
+
+type RGB = [number, number, number]
+
+interface DiffusionKernel {
+  divisor: number
+  taps: [dx: number, dy: number, weight: number][]
+}
+
+const KERNELS: Record<'floyd-steinberg' | 'atkinson' | 'sierra', DiffusionKernel> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]],
+  },
+  // Atkinson only diffuses 6/8 of the error, which keeps highlights crisp
+  atkinson: {
+    divisor: 8,
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]],
+  },
+  sierra: {
+    divisor: 32,
+    taps: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2],
+    ],
+  },
+}
+
+const bayerCache = new Map<number, Float32Array>()
+
+/** Normalized n×n Bayer threshold matrix, values in (-0.5, 0.5) */
+function bayerMatrix(n: number): Float32Array {
+  const cached = bayerCache.get(n)
+  if (cached) return cached
+
+  // Build the index matrix recursively: M(2n) = [4M, 4M+2; 4M+3, 4M+1]
+  let size = 1
+  let m = [0]
+  while (size < n) {
+    const next = new Array<number>(size * 2 * size * 2)
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const v = m[y * size + x] * 4
+        next[y * size * 2 + x] = v
+        next[y * size * 2 + x + size] = v + 2
+        next[(y + size) * size * 2 + x] = v + 3
+        next[(y + size) * size * 2 + x + size] = v + 1
+      }
+    }
+    m = next
+    size *= 2
+  }
+
+  const out = new Float32Array(n * n)
+  for (let i = 0; i < m.length; i++) out[i] = (m[i] + 0.5) / (n * n) - 0.5
+  bayerCache.set(n, out)
+  return out
+}
+
+/**
+ * Dither a grid of block colors.
+ * `colors` holds RGB triples per cell in row-major order and is consumed in place.
+ * `spread` is the typical distance between two output colors, used to scale ordered thresholds.
+ */
+export function ditherGrid(
+  colors: Float32Array,
+  cols: number,
+  rows: number,
+  mode: DitherMode,
+  strength: number,
+  spread: number,
+  map: (r: number, g: number, b: number) => RGB
+): RGB[] {
+  const out: RGB[] = new Array(cols * rows)
+
+  if (mode === 'bayer2' || mode === 'bayer4' || mode === 'bayer8') {
+    const n = mode === 'bayer2' ? 2 : mode === 'bayer4' ? 4 : 8
+    const matrix = bayerMatrix(n)
+    const amount = spread * strength
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const i = row * cols + col
+        const t = matrix[(row % n) * n + (col % n)] * amount
+        out[i] = map(colors[i * 3] + t, colors[i * 3 + 1] + t, colors[i * 3 + 2] + t)
+      }
+    }
+    return out
+  }
+
+  if (mode === 'none') {
+    for (let i = 0; i < cols * rows; i++) {
+      out[i] = map(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2])
+    }
+    return out
+  }
+
+  const { divisor, taps } = KERNELS[mode]
+  for (let row = 0; row < rows; row++) {
+    // Serpentine scan avoids the diagonal "worm" artifacts of a plain raster scan
+    const reverse = row % 2 === 1
+    for (let k = 0; k < cols; k++) {
+      const col = reverse ? cols - 1 - k : k
+      const i = row * cols + col
+      const r = clamp(colors[i * 3]), g = clamp(colors[i * 3 + 1]), b = clamp(colors[i * 3 + 2])
+      const mapped = map(r, g, b)
+      out[i] = mapped
+
+      const er = (r - mapped[0]) * strength
+      const eg = (g - mapped[1]) * strength
+      const eb = (b - mapped[2]) * strength
+      if (er === 0 && eg === 0 && eb === 0) continue
+
+      for (const [dx, dy, w] of taps) {
+        const nx = col + (reverse ? -dx : dx)
+        const ny = row + dy
+        if (nx < 0 || nx >= cols || ny >= rows) continue
+        const j = (ny * cols + nx) * 3
+        const f = w / divisor
+        colors[j] += er * f
+        colors[j + 1] += eg * f
+        colors[j + 2] += eb * f
+      }
+    }
+  }
+  return out
+}
+
+/** Typical distance between neighbouring palette colors, for scaling ordered dither */
+export function paletteSpread(palette: RGB[]): number {
+  if (palette.length < 2) return 0
+  let total = 0
+  for (const a of palette) {
+    let nearest = Infinity
+    for (const b of palette) {
+      if (a === b) continue
+      const dr = a[0] - b[0], dg = a[1] - b[1], db = a[2] - b[2]
+      nearest = Math.min(nearest, dr * dr + dg * dg + db * db)
+    }
+    total += Math.sqrt(nearest)
+  }
+  return total / palette.length
+}
+
+function clamp(v: number): number {
+  return v < 0 ? 0 : v > 255 ? 255 : v
+}
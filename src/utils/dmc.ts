@@ -0,0 +1,213 @@
+/**
+ * DMC stranded cotton (six-strand floss) color table
+ * sRGB values follow the commonly published DMC conversion charts; real thread varies by dye lot.
+ */
+
+import type { Palette } from './mosaic'
+
+type Thread = [code: string, name: string, r: number, g: number, b: number]
+
+const THREADS: Thread[] = [
+  ['B5200', 'Snow White', 255, 255, 255],
+  ['White', 'White', 252, 251, 248],
+  ['Ecru', 'Ecru', 240, 234, 218],
+  ['3865', 'Winter White', 249, 247, 241],
+  ['762', 'Pearl Gray Very Light', 236, 236, 236],
+  ['415', 'Pearl Gray', 211, 211, 214],
+  ['318', 'Steel Gray Light', 171, 171, 171],
+  ['414', 'Steel Gray Dark', 140, 140, 140],
+  ['317', 'Pewter Gray', 108, 108, 108],
+  ['413', 'Pewter Gray Dark', 86, 86, 86],
+  ['3799', 'Pewter Gray Very Dark', 66, 66, 66],
+  ['844', 'Beaver Gray Ultra Dark', 72, 72, 72],
+  ['310', 'Black', 0, 0, 0],
+  ['3072', 'Beaver Gray Very Light', 230, 232, 232],
+  ['648', 'Beaver Gray Light', 188, 180, 172],
+  ['647', 'Beaver Gray Medium', 176, 166, 156],
+  ['646', 'Beaver Gray Dark', 135, 125, 115],
+  ['645', 'Beaver Gray Very Dark', 110, 101, 92],
+  ['535', 'Ash Gray Very Light', 99, 100, 88],
+  ['3024', 'Brown Gray Very Light', 235, 234, 231],
+  ['3023', 'Brown Gray Light', 177, 170, 151],
+  ['3022', 'Brown Gray Medium', 142, 144, 120],
+  ['3787', 'Brown Gray Dark', 98, 93, 80],
+
+  ['818', 'Baby Pink', 255, 223, 217],
+  ['3708', 'Melon Light', 255, 203, 213],
+  ['3706', 'Melon Medium', 255, 173, 188],
+  ['3705', 'Melon Dark', 255, 121, 146],
+  ['776', 'Pink Medium', 252, 176, 185],
+  ['3326', 'Rose Light', 251, 173, 180],
+  ['899', 'Rose Medium', 242, 118, 136],
+  ['335', 'Rose', 238, 84, 110],
+  ['309', 'Rose Dark', 186, 74, 74],
+  ['326', 'Rose Very Dark', 179, 59, 75],
+  ['3716', 'Dusty Rose Very Light', 255, 189, 189],
+  ['962', 'Dusty Rose Medium', 230, 138, 138],
+  ['961', 'Dusty Rose Dark', 207, 115, 115],
+  ['604', 'Cranberry Light', 255, 176, 190],
+  ['603', 'Cranberry', 255, 164, 190],
+  ['602', 'Cranberry Medium', 226, 72, 116],
+  ['600', 'Cranberry Very Dark', 205, 47, 99],
+  ['948', 'Peach Very Light', 254, 231, 218],
+  ['754', 'Peach Light', 247, 203, 191],
+  ['353', 'Peach', 254, 215, 204],
+  ['352', 'Coral Light', 253, 156, 151],
+  ['351', 'Coral', 233, 106, 103],
+  ['350', 'Coral Medium', 224, 72, 72],
+  ['349', 'Coral Dark', 210, 16, 53],
+  ['817', 'Coral Red Very Dark', 187, 5, 31],
+  ['666', 'Bright Red', 227, 29, 66],
+  ['321', 'Red', 199, 43, 59],
+  ['304', 'Red Medium', 183, 31, 51],
+  ['498', 'Red Dark', 167, 19, 43],
+  ['816', 'Garnet', 151, 11, 35],
+  ['815', 'Garnet Medium', 135, 7, 31],
+  ['814', 'Garnet Dark', 123, 0, 27],
+
+  ['3341', 'Apricot', 252, 171, 152],
+  ['3340', 'Apricot Medium', 255, 131, 111],
+  ['722', 'Orange Spice Light', 247, 151, 111],
+  ['721', 'Orange Spice Medium', 242, 120, 66],
+  ['720', 'Orange Spice Dark', 229, 92, 31],
+  ['947', 'Burnt Orange', 255, 123, 77],
+  ['900', 'Burnt Orange Dark', 209, 88, 7],
+  ['741', 'Tangerine Medium', 255, 163, 43],
+  ['740', 'Tangerine', 255, 139, 0],
+  ['970', 'Pumpkin Light', 247, 139, 19],
+  ['971', 'Pumpkin', 246, 127, 0],
+  ['972', 'Canary Deep', 255, 181, 21],
+  ['973', 'Canary Bright', 255, 227, 0],
+  ['3078', 'Golden Yellow Very Light', 253, 249, 205],
+  ['727', 'Topaz Very Light', 255, 241, 175],
+  ['745', 'Yellow Pale Light', 255, 233, 173],
+  ['744', 'Yellow Pale', 255, 231, 147],
+  ['743', 'Yellow Medium', 254, 211, 118],
+  ['307', 'Lemon', 253, 237, 84],
+  ['444', 'Lemon Dark', 255, 214, 0],
+  ['726', 'Topaz Light', 253, 215, 85],
+  ['725', 'Topaz Medium Light', 255, 200, 64],
+  ['783', 'Topaz Medium', 206, 145, 36],
+  ['782', 'Topaz Dark', 174, 119, 32],
+  ['780', 'Topaz Ultra Very Dark', 148, 99, 26],
+  ['3822', 'Straw Light', 246, 220, 152],
+  ['3821', 'Straw', 243, 206, 117],
+  ['3820', 'Straw Dark', 223, 182, 95],
+  ['676', 'Old Gold Light', 229, 206, 151],
+  ['729', 'Old Gold Medium', 208, 165, 62],
+  ['680', 'Old Gold Dark', 188, 141, 14],
+
+  ['3770', 'Tawny Very Light', 255, 238, 227],
+  ['951', 'Tawny Light', 255, 226, 207],
+  ['945', 'Tawny', 251, 213, 187],
+  ['3774', 'Desert Sand Very Light', 243, 225, 215],
+  ['950', 'Desert Sand Light', 238, 211, 196],
+  ['3064', 'Desert Sand', 196, 142, 112],
+  ['407', 'Desert Sand Dark', 187, 129, 97],
+  ['3772', 'Desert Sand Very Dark', 160, 108, 80],
+  ['632', 'Desert Sand Ultra Very Dark', 135, 85, 57],
+  ['739', 'Tan Ultra Very Light', 248, 228, 200],
+  ['738', 'Tan Very Light', 236, 204, 158],
+  ['437', 'Tan Light', 228, 187, 142],
+  ['436', 'Tan', 203, 144, 81],
+  ['435', 'Brown Very Light', 184, 119, 72],
+  ['434', 'Brown Light', 152, 94, 51],
+  ['433', 'Brown Medium', 122, 69, 31],
+  ['801', 'Coffee Brown Dark', 101, 57, 25],
+  ['898', 'Coffee Brown Very Dark', 73, 42, 19],
+  ['938', 'Coffee Brown Ultra Dark', 54, 31, 14],
+  ['3371', 'Black Brown', 30, 17, 8],
+  ['402', 'Mahogany Very Light', 247, 167, 119],
+  ['3776', 'Mahogany Light', 207, 121, 57],
+  ['301', 'Mahogany Medium', 179, 95, 43],
+  ['400', 'Mahogany Dark', 143, 67, 15],
+  ['300', 'Mahogany Very Dark', 111, 47, 0],
+  ['842', 'Beige Brown Very Light', 209, 186, 161],
+  ['841', 'Beige Brown Light', 182, 155, 126],
+  ['840', 'Beige Brown Medium', 154, 124, 92],
+  ['839', 'Beige Brown Dark', 103, 85, 65],
+  ['838', 'Beige Brown Very Dark', 89, 73, 55],
+
+  ['907', 'Parrot Green Light', 199, 230, 102],
+  ['906', 'Parrot Green Medium', 127, 179, 53],
+  ['905', 'Parrot Green Dark', 98, 138, 40],
+  ['904', 'Parrot Green Very Dark', 85, 120, 34],
+  ['704', 'Chartreuse Bright', 158, 207, 52],
+  ['703', 'Chartreuse', 123, 181, 71],
+  ['702', 'Kelly Green', 71, 167, 47],
+  ['701', 'Green Light', 63, 143, 41],
+  ['700', 'Green Bright', 7, 115, 27],
+  ['699', 'Green', 5, 101, 23],
+  ['955', 'Nile Green Light', 162, 214, 173],
+  ['954', 'Nile Green', 136, 186, 145],
+  ['913', 'Nile Green Medium', 109, 171, 119],
+  ['912', 'Emerald Green Light', 27, 157, 107],
+  ['911', 'Emerald Green Medium', 24, 144, 101],
+  ['910', 'Emerald Green Dark', 24, 126, 86],
+  ['909', 'Emerald Green Very Dark', 21, 111, 73],
+  ['3348', 'Yellow Green Light', 204, 217, 177],
+  ['3347', 'Yellow Green Medium', 113, 130, 60],
+  ['3346', 'Hunter Green', 64, 106, 58],
+  ['3345', 'Hunter Green Dark', 27, 89, 21],
+  ['471', 'Avocado Green Very Light', 174, 191, 121],
+  ['470', 'Avocado Green Light', 148, 171, 79],
+  ['469', 'Avocado Green', 114, 132, 60],
+  ['959', 'Seagreen Medium', 89, 199, 180],
+  ['958', 'Seagreen Dark', 62, 182, 161],
+  ['3812', 'Seagreen Very Dark', 47, 140, 132],
+  ['3808', 'Turquoise Ultra Very Dark', 54, 105, 112],
+
+  ['3846', 'Bright Turquoise Light', 6, 227, 230],
+  ['3844', 'Bright Turquoise Dark', 18, 174, 186],
+  ['807', 'Peacock Blue', 100, 171, 186],
+  ['806', 'Peacock Blue Dark', 61, 149, 165],
+  ['3765', 'Peacock Blue Very Dark', 24, 128, 134],
+  ['3761', 'Sky Blue Light', 172, 216, 226],
+  ['519', 'Sky Blue', 126, 177, 200],
+  ['518', 'Wedgewood Light', 79, 147, 167],
+  ['517', 'Wedgewood Dark', 59, 118, 143],
+  ['996', 'Electric Blue Medium', 48, 194, 236],
+  ['3843', 'Electric Blue', 20, 170, 208],
+  ['995', 'Electric Blue Dark', 38, 150, 182],
+  ['827', 'Blue Very Light', 189, 221, 237],
+  ['813', 'Blue Light', 161, 194, 215],
+  ['826', 'Blue Medium', 107, 158, 191],
+  ['825', 'Blue Dark', 71, 129, 165],
+  ['824', 'Blue Very Dark', 57, 105, 135],
+  ['3325', 'Baby Blue Light', 184, 210, 230],
+  ['3755', 'Baby Blue', 147, 180, 206],
+  ['334', 'Baby Blue Medium', 115, 159, 193],
+  ['322', 'Baby Blue Dark', 90, 143, 184],
+  ['312', 'Baby Blue Very Dark', 53, 102, 139],
+  ['800', 'Delft Blue Pale', 192, 204, 222],
+  ['799', 'Delft Blue Medium', 116, 142, 182],
+  ['798', 'Delft Blue Dark', 70, 106, 142],
+  ['797', 'Royal Blue', 19, 71, 125],
+  ['796', 'Royal Blue Dark', 17, 65, 109],
+  ['820', 'Royal Blue Very Dark', 14, 54, 92],
+  ['336', 'Navy Blue', 37, 59, 115],
+  ['939', 'Navy Blue Very Dark', 27, 40, 83],
+  ['932', 'Antique Blue Light', 162, 181, 198],
+  ['931', 'Antique Blue Medium', 106, 133, 158],
+  ['3750', 'Antique Blue Very Dark', 56, 76, 94],
+
+  ['341', 'Blue Violet Light', 183, 191, 221],
+  ['340', 'Blue Violet Medium', 173, 167, 199],
+  ['155', 'Blue Violet Medium Dark', 152, 145, 182],
+  ['3746', 'Blue Violet Dark', 119, 107, 152],
+  ['333', 'Blue Violet Very Dark', 92, 84, 120],
+  ['211', 'Lavender Light', 227, 203, 227],
+  ['210', 'Lavender Medium', 195, 159, 195],
+  ['209', 'Lavender Dark', 163, 123, 167],
+  ['208', 'Lavender Very Dark', 131, 91, 139],
+  ['554', 'Violet Light', 219, 179, 203],
+  ['552', 'Violet Medium', 128, 58, 107],
+  ['550', 'Violet Very Dark', 92, 24, 78],
+]
+
+export const DMC_PALETTE: Palette = {
+  name: 'DMC 绣线',
+  colors: THREADS.map(([, , r, g, b]) => [r, g, b]),
+  codes: THREADS.map(([code]) => code),
+  labels: THREADS.map(([, name]) => name),
+}
@@ -0,0 +1,103 @@
+/**
+ * Export size
+ * The preview renders at source resolution. Exports can instead emit the true low-res sprite
+ * (one pixel per block), an integer nearest-neighbour upscale of it, or a target width/height.
+ * Hex, triangle and brick cells don't line up with whole output pixels, so those layouts scale the
+ * whole picture instead: 'native' and 'scale' make each cell 1 or n pixels wide.
+ */
+
+import type { MosaicGrid, RawImage, RenderStyle } from './mosaic'
+import { renderGridToRGBA } from '../renderers/raster'
+import type { GridLayout } from './tiling'
+
+export type ExportSizeMode = 'source' | 'native' | 'scale' | 'width' | 'height'
+
+export interface ExportSize {
+  mode: ExportSizeMode
+  scale: number // integer factor for 'scale'
+  target: number // pixels for 'width' / 'height'
+}
+
+export const EXPORT_SIZE_MODES: { id: ExportSizeMode; name: string }[] = [
+  { id: 'source', name: '原尺寸' },
+  { id: 'native', name: '原生网格' },
+  { id: 'scale', name: '整数倍' },
+  { id: 'width', name: '目标宽度' },
+  { id: 'height', name: '目标高度' },
+]
+
+export const EXPORT_SCALES = [2, 4, 8, 16]
+
+export const SOURCE_SIZE: ExportSize = { mode: 'source', scale: 4, target: 512 }
+
+/** Output pixels per block, or null to keep the source-size render */
+export function exportCellSize(size: ExportSize, cols: number, rows: number): number | null {
+  switch (size.mode) {
+    case 'source':
+      return null
+    case 'native':
+      return 1
+    case 'scale':
+      return size.scale
+    case 'width':
+      return size.target / cols
+    case 'height':
+      return size.target / rows
+  }
+}
+
+/** Scale from source pixels for non-square layouts, or null to keep the source-size render */
+function layoutScale(size: ExportSize, width: number, height: number, pixelSize: number): number | null {
+  switch (size.mode) {
+    case 'source':
+      return null
+    case 'native':
+      return 1 / pixelSize
+    case 'scale':
+      return size.scale / pixelSize
+    case 'width':
+      return size.target / width
+    case 'height':
+      return size.target / height
+  }
+}
+
+/** Output dimensions for an image of width × height rendered with blocks of pixelSize */
+export function exportDimensions(
+  size: ExportSize, width: number, height: number, pixelSize: number, layout: GridLayout = 'square'
+): [number, number] {
+  if (layout !== 'square') {
+    const scale = layoutScale(size, width, height, pixelSize)
+    if (scale === null) return [width, height]
+    return [Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale))]
+  }
+  const cols = Math.ceil(width / pixelSize)
+  const rows = Math.ceil(height / pixelSize)
+  const cell = exportCellSize(size, cols, rows)
+  if (cell === null) return [width, height]
+  // Round down so no output pixel lies past the last cell; the epsilon absorbs float error on exact targets
+  const whole = (v: number) => Math.max(1, Math.floor(v + 1e-6))
+  return [whole(cols * cell), whole(rows * cell)]
+}
+
+/**
+ * Render the grid at the export size. Scaled renders use whole cells (a partial last row or
+ * column of the source becomes a full one) and sample pixel centers, so every cell edge stays
+ * crisp even when a target size makes cells uneven.
+ */
+export function renderGridAtSize(grid: MosaicGrid, style: RenderStyle, size: ExportSize): RawImage {
+  let scaled: MosaicGrid
+  if (grid.layout === 'square') {
+    const cell = exportCellSize(size, grid.cols, grid.rows)
+    if (cell === null) return renderGridToRGBA(grid, style)
+    const [width, height] = exportDimensions(size, grid.cols, grid.rows, 1)
+    scaled = { ...grid, cellSize: cell, width, height }
+  } else {
+    const scale = layoutScale(size, grid.width, grid.height, grid.cellSize)
+    if (scale === null) return renderGridToRGBA(grid, style)
+    const [width, height] = exportDimensions(size, grid.width, grid.height, grid.cellSize, grid.layout)
+    scaled = { ...grid, cellSize: grid.cellSize * scale, width, height }
+  }
+  // One pixel per block leaves no room for shapes or grid lines
+  return renderGridToRGBA(scaled, size.mode === 'native' ? { ...style, shape: 'square', gridLines: 0 } : style)
+}
@@ -2,57 +2,266 @@
  * GIF parsing and encoding utilities
  */
 
-import { GifReader } from 'omggif'
+import { GifReader, GifWriter } from 'omggif'
+import type { RawImage } from './mosaic'
 
 export interface GifFrame {
   imageData: ImageData
   delay: number // ms
 }
 
-/** Parse a GIF ArrayBuffer into individual frames */
-export function parseGif(buffer: ArrayBuffer): GifFrame[] {
-  const reader = new GifReader(new Uint8Array(buffer))
-  const frames: GifFrame[] = []
+/** Decoded GIF as plain RGBA buffers (no DOM types, usable in Node) */
+export interface DecodedGif {
+  width: number
+  height: number
+  frames: { image: RawImage; delay: number }[]
+  /** NETSCAPE loop count: 0 loops forever, null means the file has no loop block and plays once */
+  loopCount: number | null
+}
+
+/** Frames parsed into ImageData for the browser */
+export interface ParsedGif {
+  frames: GifFrame[]
+  loopCount: number | null
+}
+
+type RGB = [number, number, number]
+
+// Graphic control disposal methods
+const DISPOSE_NONE = 1
+const DISPOSE_BACKGROUND = 2
+const DISPOSE_PREVIOUS = 3
+
+/**
+ * Frame delay in GIF centiseconds. Browsers play delays under 2 (20 ms) at about 100 ms, so
+ * shorter ones are raised to 2 rather than rounded down to a slow frame.
+ */
+function gifDelay(ms: number): number {
+  return Math.max(2, Math.round(ms / 10))
+}
+
+/**
+ * Decode a GIF into full-size RGBA frames.
+ * Frames are composited the way browsers play them: each frame's rectangle is drawn over the
+ * previous result (transparent pixels let it show through), then disposed of before the next frame.
+ */
+export function decodeGif(buffer: ArrayBuffer | Uint8Array): DecodedGif {
+  const reader = new GifReader(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer))
   const width = reader.width
   const height = reader.height
+  const frames: DecodedGif['frames'] = []
+
+  // Starts fully transparent; "background" disposal also clears to transparent, as browsers do
+  const canvas = new Uint8Array(width * height * 4)
+  let restore: Uint8Array | null = null
 
   for (let i = 0; i < reader.numFrames(); i++) {
     const info = reader.frameInfo(i)
-    const pixels = new Uint8Array(width * height * 4)
-    reader.decodeAndBlitFrameRGBA(i, pixels)
-
-    const imageData = new ImageData(
-      new Uint8ClampedArray(pixels.buffer),
-      width,
-      height
-    )
+    if (info.disposal === DISPOSE_PREVIOUS) restore = canvas.slice()
+
+    // Blits only the frame rectangle and skips the transparent index
+    reader.decodeAndBlitFrameRGBA(i, canvas)
+
     frames.push({
-      imageData,
+      image: { data: new Uint8ClampedArray(canvas), width, height },
       delay: (info.delay || 10) * 10, // centiseconds → ms
     })
+
+    if (info.disposal === DISPOSE_BACKGROUND) {
+      clearRect(canvas, width, height, info.x, info.y, info.width, info.height)
+    } else if (info.disposal === DISPOSE_PREVIOUS && restore) {
+      canvas.set(restore)
+    }
+  }
+
+  // omggif returns null (not typed) when there is no NETSCAPE application block
+  const loopCount = reader.loopCount() as number | null
+  return { width, height, frames, loopCount: loopCount ?? null }
+}
+
+function clearRect(pixels: Uint8Array, width: number, height: number, x: number, y: number, w: number, h: number) {
+  const x0 = Math.max(0, x), x1 = Math.min(width, x + w)
+  for (let row = Math.max(0, y); row < Math.min(height, y + h); row++) {
+    pixels.fill(0, (row * width + x0) * 4, (row * width + x1) * 4)
   }
+}
 
-  return frames
+/** Parse a GIF ArrayBuffer into individual frames */
+export function parseGif(buffer: ArrayBuffer): ParsedGif {
+  const { frames, loopCount } = decodeGif(buffer)
+  return {
+    frames: frames.map(({ image, delay }) => ({
+      imageData: new ImageData(image.data, image.width, image.height),
+      delay,
+    })),
+    loopCount,
+  }
 }
 
-/** Encode processed frames into a GIF blob */
+/**
+ * Encode processed frames into a GIF blob.
+ * Frames with at most 255 distinct opaque colors (every palette-mode or level-quantized mosaic
+ * without anti-aliased shapes) are written exactly, with `palette` leading the global color
+ * table; anything else is re-quantized by modern-gif. Fully transparent pixels (alpha 0) are
+ * written as the transparent color.
+ */
 export async function encodeGif(
-  frames: { imageData: ImageData; delay: number }[],
+  frames: { imageData: RawImage; delay: number }[],
   width: number,
-  height: number
+  height: number,
+  loopCount: number | null = 0,
+  palette?: RGB[]
 ): Promise<Blob> {
+  const exact = encodeIndexedGif(frames, width, height, loopCount, palette)
+  if (exact) return exact
+
   const { encode } = await import('modern-gif')
 
   const gifFrames = frames.map(f => ({
     data: f.imageData.data,
-    delay: f.delay,
+    delay: gifDelay(f.delay) * 10,
   }))
 
   const output = await encode({
     width,
     height,
     frames: gifFrames,
+    looped: loopCount !== null,
+    loopCount: loopCount ?? 0,
   })
 
   return new Blob([output], { type: 'image/gif' })
 }
+
+// Colors an exact table can hold next to the transparent entry
+const MAX_EXACT_COLORS = 255
+
+/**
+ * Frames as color-table indices (-1 = transparent) over one shared table of packed 0xRRGGBB
+ * colors: the palette first, in order, then any other colors the frames use (backgrounds, grid
+ * lines, outlines). Null when that needs more than 255 colors or a pixel is semi-transparent.
+ */
+function indexFrames(frames: { imageData: RawImage }[], palette: RGB[] = []): { colors: number[]; indices: Int16Array[] } | null {
+  const colors: number[] = []
+  const lookup = new Map<number, number>()
+  const add = (rgb: number) => {
+    lookup.set(rgb, colors.length)
+    colors.push(rgb)
+  }
+  for (const [r, g, b] of palette) {
+    const rgb = (r << 16) | (g << 8) | b
+    if (!lookup.has(rgb)) add(rgb)
+  }
+  if (colors.length > MAX_EXACT_COLORS) return null
+
+  const indices: Int16Array[] = []
+  for (const { imageData: { data } } of frames) {
+    const out = new Int16Array(data.length / 4)
+    for (let p = 0; p < out.length; p++) {
+      const pos = p * 4
+      const a = data[pos + 3]
+      if (a === 0) {
+        out[p] = -1
+        continue
+      }
+      if (a !== 255) return null
+      const rgb = (data[pos] << 16) | (data[pos + 1] << 8) | data[pos + 2]
+      let index = lookup.get(rgb)
+      if (index === undefined) {
+        if (colors.length === MAX_EXACT_COLORS) return null
+        index = colors.length
+        add(rgb)
+      }
+      out[p] = index
+    }
+    indices.push(out)
+  }
+  return { colors, indices }
+}
+
+/**
+ * GIF with an exact global color table and frame differencing: each frame after the first only
+ * stores the bounding box of the pixels that changed, with unchanged pixels transparent. Where the
+ * next frame turns pixels transparent, the frame is disposed to the background over that area.
+ */
+function encodeIndexedGif(
+  frames: { imageData: RawImage; delay: number }[],
+  width: number,
+  height: number,
+  loopCount: number | null,
+  palette?: RGB[]
+): Blob | null {
+  const indexed = indexFrames(frames, palette)
+  if (!indexed) return null
+  const { colors, indices } = indexed
+
+  // Tables come in powers of two; the slot after the colors is the transparent one
+  const transparent = colors.length
+  const table = [...colors, 0]
+  while (table.length < 2 || (table.length & (table.length - 1))) table.push(0)
+
+  // Room for the header plus one full frame at worst-case LZW output; flushed after every frame
+  const buffer = new Uint8Array(2048 + width * height * 2)
+  const writer = new GifWriter(buffer, width, height, { palette: table, loop: loopCount ?? undefined })
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const flush = () => {
+    parts.push(buffer.slice(0, writer.getOutputBufferPosition()))
+    writer.setOutputBufferPosition(0)
+  }
+
+  // What the viewer shows before the current frame, as table indices
+  let composite = new Int16Array(width * height).fill(-1)
+  for (let k = 0; k < frames.length; k++) {
+    const current = indices[k]
+    const next = indices[k + 1]
+    const changed = bounds(width, height, p => current[p] !== composite[p])
+    const cleared = next ? bounds(width, height, p => next[p] === -1 && current[p] !== -1) : null
+    // An unchanged frame still needs one pixel to carry its delay
+    const [x0, y0, x1, y1] = union(changed, cleared) ?? [0, 0, 1, 1]
+
+    const w = x1 - x0
+    const pixels = new Array<number>(w * (y1 - y0))
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const p = y * width + x
+        pixels[(y - y0) * w + x - x0] = current[p] !== composite[p] ? current[p] : transparent
+      }
+    }
+    writer.addFrame(x0, y0, w, y1 - y0, pixels, {
+      delay: gifDelay(frames[k].delay),
+      disposal: cleared ? DISPOSE_BACKGROUND : DISPOSE_NONE,
+      transparent,
+    })
+    flush()
+
+    composite = current.slice()
+    if (cleared) {
+      for (let y = y0; y < y1; y++) composite.fill(-1, y * width + x0, y * width + x1)
+    }
+  }
+  writer.end()
+  flush()
+  return new Blob(parts, { type: 'image/gif' })
+}
+
+type Rect = [x0: number, y0: number, x1: number, y1: number]
+
+/** Bounding box of the pixels matching `test`, or null when none does */
+function bounds(width: number, height: number, test: (p: number) => boolean): Rect | null {
+  let x0 = width, y0 = height, x1 = 0, y1 = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!test(y * width + x)) continue
+      if (x < x0) x0 = x
+      if (x >= x1) x1 = x + 1
+      if (y < y0) y0 = y
+      y1 = y + 1
+    }
+  }
+  return x1 > x0 ? [x0, y0, x1, y1] : null
+}
+
+function union(a: Rect | null, b: Rect | null): Rect | null {
+  if (!a || !b) return a ?? b
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])]
+}
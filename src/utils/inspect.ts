@@ -0,0 +1,51 @@
+/**
+ * Cell inspector
+ * What the comparison view's hover tooltip shows for a point of the image: the cell under it, the
+ * color sampled there, the color it was mapped to and the palette entry behind that color. Cells
+ * not mapped to a palette name their closest DMC thread instead.
+ */
+
+import type { MosaicGrid } from './mosaic'
+import { paletteMatcher } from './color'
+import { DMC_PALETTE } from './dmc'
+import { cellAt } from './tiling'
+
+type RGB = [number, number, number]
+
+export interface CellInfo {
+  col: number
+  row: number
+  source: RGB // sampled color, after adjustments
+  color: RGB // mapped output color
+  alpha: number // 0-255, 0 = skipped cell
+  entry: { palette: string; index: number; code: string; name: string; color: RGB }
+  nearest: boolean // entry is the closest DMC thread, not the palette color itself
+}
+
+/** The cell owning source pixel (x, y), or null outside the image */
+export function inspectCell(grid: MosaicGrid, x: number, y: number): CellInfo | null {
+  const { width, height, layout, cellSize, cols, rows, colors, sampled, alpha, palette, paletteIndex } = grid
+  if (x < 0 || y < 0 || x >= width || y >= height) return null
+  const i = cellAt(layout, x, y, cellSize, cols, rows)
+  const color: RGB = [colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]]
+  const source: RGB = [0, 1, 2].map(c => Math.round(sampled[i * 3 + c])) as RGB
+
+  const mapped = palette && paletteIndex[i] >= 0
+  const entryPalette = mapped ? palette : DMC_PALETTE
+  const index = mapped ? paletteIndex[i] : paletteMatcher(DMC_PALETTE.colors, 'ciede2000').closest(...color)
+  return {
+    col: i % cols,
+    row: Math.floor(i / cols),
+    source,
+    color,
+    alpha: alpha[i],
+    entry: {
+      palette: entryPalette.name,
+      index,
+      code: entryPalette.codes?.[index] ?? `#${index + 1}`,
+      name: entryPalette.labels?.[index] ?? '',
+      color: entryPalette.colors[index],
+    },
+    nearest: !mapped,
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Off-main-thread mosaic jobs
+ * Frame rendering, animation encoding and batch files run on a shared pool of mosaic workers
+ */
+
+import type { MosaicOptions, Palette } from './mosaic'
+import type { AnimationFormat } from './animation'
+import type { ExtractMethod } from './adaptive'
+import type { ExportSize } from './exportSize'
+import { WorkerPool, isAbortError } from './workerPool'
+
+export type MosaicRequest =
+  | { type: 'process'; imageData: ImageData; options: Partial<MosaicOptions>; size?: ExportSize }
+  | {
+    type: 'encode'
+    format: AnimationFormat
+    frames: { imageData: ImageData; delay: number }[]
+    width: number
+    height: number
+    loopCount: number | null
+    palette?: Palette
+  }
+  | { type: 'file'; file: Blob; options: Partial<MosaicOptions>; size?: ExportSize; adaptive?: AdaptiveRequest }
+
+/** Per-image adaptive palette for batch files: each file gets its own instead of the preview's */
+export interface AdaptiveRequest {
+  colors: number
+  method: ExtractMethod
+}
+
+export type MosaicResult = ImageData | Blob
+
+export interface FrameJobOptions {
+  signal?: AbortSignal
+  /** Output size; defaults to the source resolution */
+  size?: ExportSize
+  /** Called as each frame finishes, in completion order */
+  onFrame?: (index: number, result: ImageData, done: number) => void
+}
+
+// Leave one core for the UI thread
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))
+
+const pool = new WorkerPool<MosaicRequest, MosaicResult>(
+  () => new Worker(new URL('../workers/mosaic.worker.ts', import.meta.url), { type: 'module' }),
+  POOL_SIZE
+)
+
+/** Render every frame in parallel; rejects with an AbortError when the signal fires */
+export async function processFramesInWorkers(
+  frames: ImageData[],
+  options: Partial<MosaicOptions>,
+  { signal, size, onFrame }: FrameJobOptions = {}
+): Promise<ImageData[]> {
+  const results = new Array<ImageData>(frames.length)
+  let done = 0
+  await Promise.all(frames.map(async (imageData, i) => {
+    const result = await pool.run({ type: 'process', imageData, options, size }, [], signal) as ImageData
+    results[i] = result
+    onFrame?.(i, result, ++done)
+  }))
+  return results
+}
+
+/** Encode processed frames in a worker; frame buffers are transferred, not copied */
+export async function encodeAnimationInWorker(
+  format: AnimationFormat,
+  frames: { imageData: ImageData; delay: number }[],
+  width: number,
+  height: number,
+  loopCount: number | null,
+  palette?: Palette,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const transfer = frames.map(f => f.imageData.data.buffer)
+  return await pool.run({ type: 'encode', format, frames, width, height, loopCount, palette }, transfer, signal) as Blob
+}
+
+export interface FileJobOptions {
+  signal?: AbortSignal
+  /** Output size; defaults to each file's own resolution */
+  size?: ExportSize
+  adaptive?: AdaptiveRequest
+  /** Called when a file is handed to a worker */
+  onStart?: (index: number) => void
+  /** Called as each file finishes or fails; a failed file does not stop the others */
+  onFile?: (index: number, result: Blob | Error) => void
+}
+
+/**
+ * Decode, render and PNG-encode image files in the workers, one file per worker at a time so
+ * `onStart` marks real progress. Results are in input order, null for files that failed;
+ * rejects with an AbortError when the signal fires.
+ */
+export async function processFilesInWorkers(
+  files: Blob[],
+  options: Partial<MosaicOptions>,
+  { signal, size, adaptive, onStart, onFile }: FileJobOptions = {}
+): Promise<(Blob | null)[]> {
+  const results = new Array<Blob | null>(files.length).fill(null)
+  let next = 0
+  const lane = async () => {
+    while (next < files.length) {
+      const i = next++
+      onStart?.(i)
+      try {
+        results[i] = await pool.run({ type: 'file', file: files[i], options, size, adaptive }, [], signal) as Blob
+        onFile?.(i, results[i]!)
+      } catch (err) {
+        if (isAbortError(err)) throw err
+        onFile?.(i, err instanceof Error ? err : new Error(String(err)))
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(POOL_SIZE, files.length) }, lane))
+  return results
+}
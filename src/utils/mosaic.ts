@@ -1,29 +1,126 @@
 /**
  * Core mosaic pixel engine
- * Supports grayscale/color/palette modes and multiple pixel shapes
+ * Supports grayscale/color/palette/adaptive modes and multiple pixel shapes
+ *
+ * Works in two steps: computeGrid() reduces raw RGBA pixels to a canvas-independent
+ * MosaicGrid, and a renderer (see src/renderers) draws that grid.
  */
 
-export type ColorMode = 'grayscale' | 'color' | 'palette'
-export type PixelShape = 'square' | 'circle' | 'diamond' | 'cross' | 'ascii'
+import { ditherGrid, paletteSpread, type DitherMode } from './dither'
+import { blockRegion, regionAlpha, sampleRegion, type CellRegion, type SamplingMode } from './sampling'
+import { paletteMatcher, type ColorMetric } from './color'
+import { DMC_PALETTE } from './dmc'
+import { HAMA_PALETTE, LEGO_PALETTE, PERLER_PALETTE } from './beads'
+import { drawGrid } from '../renderers/canvas'
+import { renderGridAtSize, SOURCE_SIZE, type ExportSize } from './exportSize'
+import { blendMasked } from './mask'
+import { cellBounds, cellCenter, cellOwners, gridSize, type GridLayout } from './tiling'
+import { assignTiles, type PhotoTile, type TileMatch } from './photoMosaic'
+import { adjustImage, NO_ADJUSTMENTS, type Adjustments } from './adjustments'
+import { findOutline, OUTLINE_DARKEN, type OutlineMode } from './outline'
+
+export type ColorMode = 'grayscale' | 'color' | 'palette' | 'adaptive'
+export type PixelShape = 'square' | 'circle' | 'diamond' | 'cross' | 'ascii' | 'photo'
+export type BackgroundMode = 'auto' | 'solid' | 'transparent' | 'checker'
+export type AlphaMode = 'skip' | 'keep'
+
+export const BACKGROUNDS: { id: BackgroundMode; name: string }[] = [
+  { id: 'auto', name: '默认' },
+  { id: 'solid', name: '纯色' },
+  { id: 'transparent', name: '透明' },
+  { id: 'checker', name: '棋盘格' },
+]
+
+export const ALPHA_MODES: { id: AlphaMode; name: string }[] = [
+  { id: 'skip', name: '跳过' },
+  { id: 'keep', name: '保留透明度' },
+]
 
 export interface Palette {
   name: string
   colors: [number, number, number][]
+  codes?: string[] // product codes parallel to colors (thread numbers, bead/brick part codes)
+  labels?: string[] // product color names parallel to colors
 }
 
 export interface MosaicOptions {
   pixelSize: number
+  layout: GridLayout
+  adjustments: Adjustments // tone/color corrections applied to the source before sampling
   colorMode: ColorMode
   levels: number
-  palette?: Palette
+  palette?: Palette // used by 'palette' and 'adaptive' modes
+  colorMetric: ColorMetric // distance used when matching against the palette
   shape: PixelShape
+  sampling: SamplingMode
+  dither: DitherMode
+  ditherStrength: number // 0-1
+  background: BackgroundMode
+  backgroundColor: [number, number, number] // used by 'solid'
+  alphaThreshold: number // 0-1: blocks with less opaque coverage count as transparent
+  alphaMode: AlphaMode // transparent blocks are dropped ('skip') or drawn at their mean alpha ('keep')
+  mask?: Uint8Array // per source pixel 0-255: where the mosaic shows over the original; unset = everywhere
+  tiles?: PhotoTile[] // tile library for the 'photo' shape
+  tileMatch: TileMatch
+  tileReuse: number // max uses per tile, 0 = unlimited
+  tileTint: number // 0-1: how far tiles are shifted toward the cell's output color
+  outline: OutlineMode // pixel-art outlines, see outline.ts
+  outlineThreshold: number // 0-1: edge strength or color difference that gets an outline
+  outlineColor: [number, number, number] | null // null = darkened cell color
+  gridLines: number // grid line thickness in output px, 0 = off
+  gridColor: [number, number, number]
+}
+
+/** The options renderers need besides the grid itself */
+export type RenderStyle = Pick<MosaicOptions, 'shape' | 'background' | 'backgroundColor' | 'gridLines' | 'gridColor'>
+
+/** Raw RGBA pixels; ImageData satisfies this, so do decoded PNG/GIF buffers in Node */
+export interface RawImage {
+  data: Uint8ClampedArray<ArrayBuffer>
+  width: number
+  height: number
 }
 
-const DEFAULT_OPTIONS: MosaicOptions = {
+/** The mosaic as data: one mapped color per cell, independent of any drawing surface */
+export interface MosaicGrid {
+  width: number // source size in px
+  height: number
+  cellSize: number
+  layout: GridLayout // cell geometry, see tiling.ts
+  cols: number
+  rows: number
+  colors: Uint8ClampedArray // mapped RGB per cell, row-major
+  sampled: Float32Array // sampled (adjusted, unmapped) RGB per cell, row-major
+  brightness: Float32Array // 0-1 luminance of the sampled (unmapped) color, drives ASCII glyphs
+  paletteIndex: Int16Array // index into `palette` per cell, -1 when not palette-mapped
+  alpha: Uint8Array // 255 per fully drawn cell, 0 for skipped cells, in between for kept partial alpha
+  palette?: Palette
+  photo?: { tiles: PhotoTile[]; index: Int32Array; tint: number } // 'photo' shape: tile per cell (-1 = none, or an outline cell drawn flat)
+}
+
+export const DEFAULT_OPTIONS: MosaicOptions = {
   pixelSize: 8,
+  layout: 'square',
+  adjustments: NO_ADJUSTMENTS,
   colorMode: 'grayscale',
   levels: 4,
+  colorMetric: 'rgb',
   shape: 'square',
+  sampling: 'center',
+  dither: 'none',
+  ditherStrength: 1,
+  background: 'auto',
+  backgroundColor: [0, 0, 0],
+  alphaThreshold: 0.5,
+  alphaMode: 'skip',
+  tileMatch: 'quad',
+  tileReuse: 0,
+  tileTint: 0,
+  outline: 'none',
+  outlineThreshold: 0.25,
+  outlineColor: null,
+  gridLines: 0,
+  gridColor: [0, 0, 0],
 }
 
 export const PALETTES: Palette[] = [
@@ -55,6 +152,10 @@ export const PALETTES: Palette[] = [
       [180, 140, 90], [210, 180, 130], [235, 215, 180], [250, 240, 220],
     ],
   },
+  DMC_PALETTE,
+  PERLER_PALETTE,
+  HAMA_PALETTE,
+  LEGO_PALETTE,
 ]
 
 export const SHAPES: { id: PixelShape; name: string; icon: string }[] = [
@@ -63,11 +164,9 @@ export const SHAPES: { id: PixelShape; name: string; icon: string }[] = [
   { id: 'diamond', name: '菱形', icon: '◆' },
   { id: 'cross', name: '十字绣', icon: '✚' },
   { id: 'ascii', name: '字符画', icon: 'A' },
+  { id: 'photo', name: '照片拼图', icon: '▣' },
 ]
 
-// ASCII density ramp (dark → light)
-const ASCII_CHARS = '@%#*+=-:. '
-
 function toGray(r: number, g: number, b: number): number {
   return 0.299 * r + 0.587 * g + 0.114 * b
 }
@@ -77,86 +176,152 @@ function quantize(value: number, levels: number): number {
   return Math.round(Math.round(value / step) * step)
 }
 
-function closestPaletteColor(r: number, g: number, b: number, palette: [number, number, number][]): [number, number, number] {
-  let minDist = Infinity
-  let best = palette[0]
-  for (const c of palette) {
-    const dr = r - c[0], dg = g - c[1], db = b - c[2]
-    const dist = dr * dr + dg * dg + db * db
-    if (dist < minDist) { minDist = dist; best = c }
-  }
-  return best
+function usesPalette(opts: MosaicOptions): boolean {
+  return opts.colorMode === 'palette' || opts.colorMode === 'adaptive'
 }
 
-function mapColor(r: number, g: number, b: number, opts: MosaicOptions): [number, number, number] {
+/** Build the per-block color mapping for the current options; palette lookups go through a cached matcher */
+function colorMapper(opts: MosaicOptions): (r: number, g: number, b: number) => [number, number, number] {
   if (opts.colorMode === 'grayscale') {
-    const gray = quantize(toGray(r, g, b), opts.levels)
-    return [gray, gray, gray]
-  } else if (opts.colorMode === 'palette' && opts.palette) {
-    return closestPaletteColor(r, g, b, opts.palette.colors)
+    return (r, g, b) => {
+      const gray = quantize(toGray(r, g, b), opts.levels)
+      return [gray, gray, gray]
+    }
+  } else if (usesPalette(opts) && opts.palette) {
+    const colors = opts.palette.colors
+    const matcher = paletteMatcher(colors, opts.colorMetric)
+    return (r, g, b) => colors[matcher.closest(r, g, b)]
   }
   const q = opts.levels
-  return [quantize(r, q), quantize(g, q), quantize(b, q)]
+  return (r, g, b) => [quantize(r, q), quantize(g, q), quantize(b, q)]
 }
 
-/** Draw a single pixel block with the given shape */
-function drawShape(
-  ctx: CanvasRenderingContext2D,
-  x: number, y: number, size: number,
-  r: number, g: number, b: number,
-  brightness: number, // 0-1 for ASCII
-  shape: PixelShape
-) {
-  const half = size / 2
-  const cx = x + half
-  const cy = y + half
-  const color = `rgb(${r},${g},${b})`
-
-  switch (shape) {
-    case 'square':
-      ctx.fillStyle = color
-      ctx.fillRect(x, y, size, size)
-      break
-
-    case 'circle':
-      ctx.fillStyle = color
-      ctx.beginPath()
-      ctx.arc(cx, cy, half * 0.85, 0, Math.PI * 2)
-      ctx.fill()
-      break
-
-    case 'diamond':
-      ctx.fillStyle = color
-      ctx.beginPath()
-      ctx.moveTo(cx, y + 1)
-      ctx.lineTo(x + size - 1, cy)
-      ctx.lineTo(cx, y + size - 1)
-      ctx.lineTo(x + 1, cy)
-      ctx.closePath()
-      ctx.fill()
-      break
-
-    case 'cross': {
-      ctx.fillStyle = color
-      const arm = Math.max(1, Math.floor(size * 0.3))
-      // Horizontal bar
-      ctx.fillRect(x, y + half - arm / 2, size, arm)
-      // Vertical bar
-      ctx.fillRect(x + half - arm / 2, y, arm, size)
-      break
+/** Cheap pre-check so fully opaque images skip the per-block coverage pass */
+function hasTransparency(pixels: Uint8ClampedArray): boolean {
+  for (let pos = 3; pos < pixels.length; pos += 4) {
+    if (pixels[pos] < 255) return true
+  }
+  return false
+}
+
+/** Distance between two adjacent output colors, used to scale ordered dithering */
+function ditherSpread(opts: MosaicOptions): number {
+  if (usesPalette(opts) && opts.palette) return paletteSpread(opts.palette.colors)
+  return 255 / (opts.levels - 1)
+}
+
+/**
+ * Sample every block and map it to the output colors (optionally dithered).
+ * Pure: no canvas involved, so it runs in workers, Node and tests alike.
+ */
+export function computeGrid(image: RawImage, options: Partial<MosaicOptions> = {}): MosaicGrid {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const source = adjustImage(image, opts.adjustments)
+  const { data: pixels, width, height } = source
+  const { pixelSize, layout } = opts
+  const [cols, rows] = gridSize(layout, width, height, pixelSize)
+  const owners = layout === 'square' ? null : cellOwners(layout, width, height, pixelSize, cols, rows)
+
+  const sampled = new Float32Array(cols * rows * 3)
+  const brightness = new Float32Array(cols * rows)
+  const alpha = new Uint8Array(cols * rows).fill(255)
+  const transparent = hasTransparency(pixels)
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const i = row * cols + col
+      const region = owners
+        ? cellRegion(layout, col, row, pixelSize, width, height, owners, i)
+        : blockRegion(width, height, col * pixelSize, row * pixelSize, pixelSize)
+      const [r, g, b] = sampleRegion(pixels, width, region, opts.sampling)
+
+      sampled[i * 3] = r
+      sampled[i * 3 + 1] = g
+      sampled[i * 3 + 2] = b
+      brightness[i] = toGray(r, g, b) / 255
+      if (transparent) {
+        const [coverage, mean] = regionAlpha(pixels, width, region)
+        if (coverage < opts.alphaThreshold) alpha[i] = opts.alphaMode === 'keep' ? Math.round(mean) : 0
+      }
     }
+  }
+
+  const mapColor = colorMapper(opts)
+  const mapped = ditherGrid(
+    sampled, cols, rows,
+    opts.dither, opts.ditherStrength, ditherSpread(opts),
+    mapColor
+  )
+
+  // Palette colors come back by reference, so identity recovers their index
+  const palette = usesPalette(opts) ? opts.palette : undefined
+  const indexOf = new Map(palette?.colors.map((c, i) => [c, i]))
+
+  const colors = new Uint8ClampedArray(cols * rows * 3)
+  const paletteIndex = new Int16Array(cols * rows)
+  for (let i = 0; i < mapped.length; i++) {
+    const c = mapped[i]
+    colors[i * 3] = c[0]
+    colors[i * 3 + 1] = c[1]
+    colors[i * 3 + 2] = c[2]
+    paletteIndex[i] = indexOf.get(c) ?? -1
+  }
 
-    case 'ascii': {
-      const charIdx = Math.floor((1 - brightness) * (ASCII_CHARS.length - 1))
-      const ch = ASCII_CHARS[Math.max(0, Math.min(charIdx, ASCII_CHARS.length - 1))]
-      ctx.fillStyle = color
-      ctx.font = `${size}px monospace`
-      ctx.textAlign = 'center'
-      ctx.textBaseline = 'middle'
-      ctx.fillText(ch, cx, cy)
-      break
+  const grid: MosaicGrid = { width, height, cellSize: pixelSize, layout, cols, rows, colors, sampled, brightness, paletteIndex, alpha, palette }
+  const outline = findOutline(source, grid, opts.outline, opts.outlineThreshold)
+  if (opts.outline !== 'none') {
+    // Outline colors go through the same mapping, so they stay inside the output palette
+    for (let i = 0; i < outline.length; i++) {
+      if (!outline[i]) continue
+      const [r, g, b] = opts.outlineColor ?? [0, 1, 2].map(c => colors[i * 3 + c] * OUTLINE_DARKEN)
+      const c = mapColor(r, g, b)
+      colors.set(c, i * 3)
+      paletteIndex[i] = indexOf.get(c) ?? -1
     }
   }
+  if (opts.shape === 'photo' && opts.tiles?.length) {
+    const index = assignTiles(source, grid, sampled, opts.tiles, opts.tileMatch, opts.tileReuse)
+    // Outlined cells are drawn flat in their outline color
+    for (let i = 0; i < outline.length; i++) if (outline[i]) index[i] = -1
+    grid.photo = { tiles: opts.tiles, index, tint: opts.tileTint }
+  }
+  return grid
+}
+
+/**
+ * Pixels owned by a non-square cell. Offset layouts keep some cells entirely outside the image;
+ * those sample the nearest edge pixel and are never visible.
+ */
+function cellRegion(
+  layout: GridLayout, col: number, row: number, size: number,
+  width: number, height: number,
+  owners: Int32Array, i: number
+): CellRegion {
+  const [x0, y0, x1, y1] = cellBounds(layout, col, row, size, width, height)
+  const [fx, fy] = cellCenter(layout, col, row, size)
+  const cx = Math.max(0, Math.min(width - 1, Math.floor(fx)))
+  const cy = Math.max(0, Math.min(height - 1, Math.floor(fy)))
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (owners[y * width + x] === i) return { x0, y0, x1, y1, cx, cy, inside: (px, py) => owners[py * width + px] === i }
+    }
+  }
+  return { x0: cx, y0: cy, x1: cx + 1, y1: cy + 1, cx, cy }
+}
+
+/**
+ * Palette index per cell for a product palette (threads, beads, bricks). Cells the grid already
+ * mapped to this palette keep their index; the rest go to the closest entry under `metric`.
+ */
+export function matchGridToPalette(grid: MosaicGrid, palette: Palette, metric: ColorMetric): Int16Array {
+  const { colors } = grid
+  const matcher = paletteMatcher(palette.colors, metric)
+  const out = new Int16Array(grid.cols * grid.rows)
+  for (let i = 0; i < out.length; i++) {
+    out[i] = grid.palette === palette && grid.paletteIndex[i] >= 0
+      ? grid.paletteIndex[i]
+      : matcher.closest(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2])
+  }
+  return out
 }
 
 /**
@@ -168,7 +333,6 @@ export function applyMosaic(
   options: Partial<MosaicOptions> = {}
 ): void {
   const opts = { ...DEFAULT_OPTIONS, ...options }
-  const { pixelSize, shape } = opts
 
   const width = sourceCanvas.width
   const height = sourceCanvas.height
@@ -178,69 +342,73 @@ export function applyMosaic(
   const srcCtx = sourceCanvas.getContext('2d')!
   const tgtCtx = targetCanvas.getContext('2d')!
   const imageData = srcCtx.getImageData(0, 0, width, height)
-  const pixels = imageData.data
 
-  // Background: black for most shapes, dark for ASCII
-  tgtCtx.fillStyle = shape === 'ascii' ? '#111' : '#000'
-  tgtCtx.fillRect(0, 0, width, height)
-
-  for (let x = 0; x < width; x += pixelSize) {
-    for (let y = 0; y < height; y += pixelSize) {
-      const cx = Math.min(x + Math.floor(pixelSize / 2), width - 1)
-      const cy = Math.min(y + Math.floor(pixelSize / 2), height - 1)
-      const pos = (cy * width + cx) * 4
+  drawGrid(tgtCtx, computeGrid(imageData, opts), opts)
+  restoreUnmasked(tgtCtx, imageData, opts.mask)
+}
 
-      const origR = pixels[pos], origG = pixels[pos + 1], origB = pixels[pos + 2]
-      const [r, g, b] = mapColor(origR, origG, origB, opts)
-      const brightness = toGray(origR, origG, origB) / 255
+/** Put the original pixels back outside the mask (a mask sized for another image is ignored) */
+function restoreUnmasked(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, original: ImageData, mask: Uint8Array | undefined) {
+  const { width, height } = original
+  if (!mask || mask.length !== width * height) return
+  const result = ctx.getImageData(0, 0, width, height)
+  blendMasked(result.data, original.data, mask)
+  ctx.putImageData(result, 0, 0)
+}
 
-      drawShape(tgtCtx, x, y, pixelSize, r, g, b, brightness, shape)
+/**
+ * The grid rendered at an export size, with the original put back outside the mask. The original
+ * and the mask are scaled nearest-neighbour over the area the render covers: whole cells for square
+ * grids (a partial last row or column stretches past the source edge), the source itself otherwise.
+ */
+export function renderMaskedAtSize(grid: MosaicGrid, original: RawImage, options: Partial<MosaicOptions>, size: ExportSize): RawImage {
+  const image = renderGridAtSize(grid, { ...DEFAULT_OPTIONS, ...options }, size)
+  const { mask } = options
+  if (!mask || mask.length !== original.width * original.height) return image
+
+  const { width, height } = image
+  const spanX = grid.layout === 'square' ? grid.cols * grid.cellSize : original.width
+  const spanY = grid.layout === 'square' ? grid.rows * grid.cellSize : original.height
+  const scaledMask = new Uint8Array(width * height)
+  const scaledOriginal = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(original.height - 1, Math.floor(((y + 0.5) * spanY) / height))
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(original.width - 1, Math.floor(((x + 0.5) * spanX) / width))
+      const from = sy * original.width + sx
+      const to = y * width + x
+      scaledMask[to] = mask[from]
+      scaledOriginal.set(original.data.subarray(from * 4, from * 4 + 4), to * 4)
     }
   }
+  blendMasked(image.data, scaledOriginal, scaledMask)
+  return image
 }
 
 /**
  * Process a single frame's ImageData (for GIF frame processing)
- * Uses an offscreen canvas for shape rendering
+ * Uses an offscreen canvas for shape rendering; other export sizes go through the raster renderer.
  */
 export function processFrame(
   imageData: ImageData,
-  options: Partial<MosaicOptions> = {}
+  options: Partial<MosaicOptions> = {},
+  size: ExportSize = SOURCE_SIZE
 ): ImageData {
   const opts = { ...DEFAULT_OPTIONS, ...options }
   const { width, height } = imageData
+  const grid = computeGrid(imageData, opts)
+
+  if (size.mode !== 'source') {
+    const image = renderMaskedAtSize(grid, imageData, opts, size)
+    return new ImageData(image.data as Uint8ClampedArray<ArrayBuffer>, image.width, image.height)
+  }
 
   // Use offscreen canvas for all shapes
   const canvas = new OffscreenCanvas(width, height)
   const ctx = canvas.getContext('2d')!
 
-  // Put source data
-  ctx.putImageData(imageData, 0, 0)
-
-  // Create source canvas to read from
-  const srcCanvas = new OffscreenCanvas(width, height)
-  srcCanvas.getContext('2d')!.putImageData(imageData, 0, 0)
-
-  // Clear and draw
-  const { pixelSize, shape } = opts
-  ctx.fillStyle = shape === 'ascii' ? '#111' : '#000'
-  ctx.fillRect(0, 0, width, height)
-
-  const srcData = imageData.data
-
-  for (let x = 0; x < width; x += pixelSize) {
-    for (let y = 0; y < height; y += pixelSize) {
-      const cx = Math.min(x + Math.floor(pixelSize / 2), width - 1)
-      const cy = Math.min(y + Math.floor(pixelSize / 2), height - 1)
-      const pos = (cy * width + cx) * 4
-
-      const origR = srcData[pos], origG = srcData[pos + 1], origB = srcData[pos + 2]
-      const [r, g, b] = mapColor(origR, origG, origB, opts)
-      const brightness = toGray(origR, origG, origB) / 255
-
-      drawShape(ctx as unknown as CanvasRenderingContext2D, x, y, pixelSize, r, g, b, brightness, shape)
-    }
-  }
+  drawGrid(ctx, grid, opts)
+  restoreUnmasked(ctx, imageData, opts.mask)
 
   return ctx.getImageData(0, 0, width, height)
 }
@@ -0,0 +1,116 @@
+/**
+ * Pixel-art outlines
+ * Finds the cells that should carry a 1-cell outline, the dark contour hand-made pixel art relies on.
+ * 'edges' runs a Sobel filter over the source and outlines the dark side of strong edges; 'boundary'
+ * outlines the darker of two neighbouring cells whose output colors differ. Both modes also outline
+ * the silhouette: drawn cells next to transparent ones.
+ */
+
+import type { MosaicGrid, RawImage } from './mosaic'
+import { cellAt, cellCenter, cellNeighbors } from './tiling'
+
+export type OutlineMode = 'none' | 'edges' | 'boundary'
+
+export const OUTLINE_MODES: { id: OutlineMode; name: string }[] = [
+  { id: 'none', name: '无' },
+  { id: 'edges', name: '边缘检测' },
+  { id: 'boundary', name: '色块边界' },
+]
+
+// Share of the cell color kept by darkened outlines
+export const OUTLINE_DARKEN = 0.45
+
+// Largest RGB distance, to normalize color differences to 0-1
+const MAX_DISTANCE = Math.sqrt(3) * 255
+
+/**
+ * Outline flag per cell (1 = outline). `threshold` (0-1) is the edge strength for 'edges' and the
+ * color difference for 'boundary' below which no outline is drawn.
+ */
+export function findOutline(image: RawImage, grid: MosaicGrid, mode: OutlineMode, threshold: number): Uint8Array {
+  const { cols, rows, layout, colors, alpha } = grid
+  const marks = new Uint8Array(cols * rows)
+  if (mode === 'none') return marks
+
+  const luma = (i: number) => 0.299 * colors[i * 3] + 0.587 * colors[i * 3 + 1] + 0.114 * colors[i * 3 + 2]
+  const neighbors = (i: number) => cellNeighbors(layout, i % cols, Math.floor(i / cols))
+    .filter(([c, r]) => c >= 0 && c < cols && r >= 0 && r < rows)
+    .map(([c, r]) => r * cols + c)
+  const strength = mode === 'edges' ? edgeStrength(image, grid) : null
+
+  for (let i = 0; i < cols * rows; i++) {
+    if (!alpha[i]) continue
+    const near = neighbors(i)
+    if (near.some(j => !alpha[j])) {
+      marks[i] = 1
+    } else if (strength) {
+      marks[i] = strength.magnitude[i] >= threshold && darkSide(grid, i, near, strength.gx[i], strength.gy[i]) ? 1 : 0
+    } else {
+      // The darker cell of each differing pair takes the outline; equal brightness goes to the earlier cell
+      marks[i] = near.some(j => {
+        const d = Math.hypot(colors[i * 3] - colors[j * 3], colors[i * 3 + 1] - colors[j * 3 + 1], colors[i * 3 + 2] - colors[j * 3 + 2])
+        if (d === 0 || d / MAX_DISTANCE < threshold) return false
+        return luma(i) < luma(j) || (luma(i) === luma(j) && i < j)
+      }) ? 1 : 0
+    }
+  }
+  return marks
+}
+
+/**
+ * Whether cell i lies on the dark side of its edge: the Sobel gradient points toward brighter
+ * pixels, so the neighbour in that direction must be brighter than the cell. Cells at the grid's
+ * rim without such a neighbour count as dark.
+ */
+function darkSide(grid: MosaicGrid, i: number, near: number[], gx: number, gy: number): boolean {
+  const { cols, layout, cellSize, brightness } = grid
+  const [cx, cy] = cellCenter(layout, i % cols, Math.floor(i / cols), cellSize)
+  let toward = -1
+  let best = 0
+  for (const j of near) {
+    const [nx, ny] = cellCenter(layout, j % cols, Math.floor(j / cols), cellSize)
+    const dot = ((nx - cx) * gx + (ny - cy) * gy) / Math.hypot(nx - cx, ny - cy)
+    if (dot > best) {
+      best = dot
+      toward = j
+    }
+  }
+  return toward < 0 || brightness[toward] > brightness[i]
+}
+
+/**
+ * Sobel gradient of the alpha-weighted luminance, summed per cell. The magnitude is divided by
+ * twice the cell's side, so a full-contrast edge across a cell scores about 1 at any cell size.
+ */
+function edgeStrength({ data, width, height }: RawImage, grid: MosaicGrid) {
+  const { cols, rows, layout, cellSize } = grid
+  const count = cols * rows
+  const gx = new Float32Array(count)
+  const gy = new Float32Array(count)
+  const magnitude = new Float32Array(count)
+  const pixels = new Uint32Array(count)
+
+  const lum = new Float32Array(width * height)
+  for (let p = 0; p < lum.length; p++) {
+    const pos = p * 4
+    lum[p] = ((0.299 * data[pos] + 0.587 * data[pos + 1] + 0.114 * data[pos + 2]) * data[pos + 3]) / (255 * 255)
+  }
+  const at = (x: number, y: number) =>
+    lum[Math.max(0, Math.min(height - 1, y)) * width + Math.max(0, Math.min(width - 1, x))]
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = (at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)) / 4
+      const dy = (at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)) / 4
+      const i = cellAt(layout, x + 0.5, y + 0.5, cellSize, cols, rows)
+      gx[i] += dx
+      gy[i] += dy
+      magnitude[i] += Math.hypot(dx, dy)
+      pixels[i]++
+    }
+  }
+  for (let i = 0; i < count; i++) {
+    if (pixels[i]) magnitude[i] /= 2 * Math.sqrt(pixels[i])
+  }
+  return { gx, gy, magnitude }
+}
@@ -0,0 +1,273 @@
+/**
+ * Palette file formats
+ * GIMP .gpl, plain .hex (Lospec), JASC .pal and Adobe .ase import/export
+ */
+
+import type { Palette } from './mosaic'
+
+export type PaletteFormat = 'gpl' | 'hex' | 'pal' | 'ase'
+
+export const PALETTE_FORMATS: { id: PaletteFormat; name: string; ext: string }[] = [
+  { id: 'gpl', name: 'GIMP', ext: '.gpl' },
+  { id: 'hex', name: 'HEX', ext: '.hex' },
+  { id: 'pal', name: 'JASC', ext: '.pal' },
+  { id: 'ase', name: 'ASE', ext: '.ase' },
+]
+
+type RGB = [number, number, number]
+
+/** Read a palette file, picking the parser from its extension */
+export async function importPalette(file: File): Promise<Palette> {
+  const ext = file.name.split('.').pop()?.toLowerCase()
+  const fallbackName = file.name.replace(/\.[^.]+$/, '')
+  let palette: Palette
+  switch (ext) {
+    case 'gpl':
+      palette = parseGpl(await file.text(), fallbackName)
+      break
+    case 'hex':
+    case 'txt':
+      palette = parseHex(await file.text(), fallbackName)
+      break
+    case 'pal':
+      palette = parsePal(await file.text(), fallbackName)
+      break
+    case 'ase':
+      palette = parseAse(await file.arrayBuffer(), fallbackName)
+      break
+    default:
+      throw new Error(`不支持的调色板格式：.${ext}`)
+  }
+  if (palette.colors.length === 0) throw new Error('调色板中没有颜色')
+  return palette
+}
+
+/** Serialize a palette into a downloadable file */
+export function exportPalette(palette: Palette, format: PaletteFormat): Blob {
+  switch (format) {
+    case 'gpl':
+      return new Blob([serializeGpl(palette)], { type: 'text/plain' })
+    case 'hex':
+      return new Blob([serializeHex(palette)], { type: 'text/plain' })
+    case 'pal':
+      return new Blob([serializePal(palette)], { type: 'text/plain' })
+    case 'ase':
+      return new Blob([serializeAse(palette)], { type: 'application/octet-stream' })
+  }
+}
+
+export function toHex([r, g, b]: RGB): string {
+  return [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')
+}
+
+export function fromHex(hex: string): RGB | null {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex.trim())
+  if (!m) return null
+  const n = parseInt(m[1], 16)
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255]
+}
+
+// --- GIMP .gpl ---
+
+export function parseGpl(text: string, fallbackName: string): Palette {
+  const lines = text.split(/\r?\n/)
+  if (!lines[0]?.startsWith('GIMP Palette')) throw new Error('不是有效的 GIMP 调色板')
+  let name = fallbackName
+  const colors: RGB[] = []
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) continue
+    const nameMatch = /^Name:\s*(.+)$/.exec(trimmed)
+    if (nameMatch) { name = nameMatch[1]; continue }
+    if (/^Columns:/.test(trimmed)) continue
+    const m = /^(\d+)\s+(\d+)\s+(\d+)/.exec(trimmed)
+    if (m) colors.push([clampByte(+m[1]), clampByte(+m[2]), clampByte(+m[3])])
+  }
+  return { name, colors }
+}
+
+export function serializeGpl(palette: Palette): string {
+  const lines = ['GIMP Palette', `Name: ${palette.name}`, 'Columns: 0', '#']
+  for (const c of palette.colors) {
+    lines.push(`${c.map(v => String(v).padStart(3)).join(' ')}\t#${toHex(c)}`)
+  }
+  return lines.join('\n') + '\n'
+}
+
+// --- Plain .hex (one RRGGBB per line, as used by Lospec) ---
+
+export function parseHex(text: string, fallbackName: string): Palette {
+  const colors: RGB[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const c = fromHex(line)
+    if (c) colors.push(c)
+  }
+  return { name: fallbackName, colors }
+}
+
+export function serializeHex(palette: Palette): string {
+  return palette.colors.map(toHex).join('\n') + '\n'
+}
+
+// --- JASC .pal ---
+
+export function parsePal(text: string, fallbackName: string): Palette {
+  const lines = text.split(/\r?\n/).map(l => l.trim())
+  if (lines[0] !== 'JASC-PAL') throw new Error('不是有效的 JASC 调色板')
+  const count = parseInt(lines[2], 10)
+  const colors: RGB[] = []
+  for (const line of lines.slice(3, 3 + count)) {
+    const m = /^(\d+)\s+(\d+)\s+(\d+)/.exec(line)
+    if (m) colors.push([clampByte(+m[1]), clampByte(+m[2]), clampByte(+m[3])])
+  }
+  return { name: fallbackName, colors }
+}
+
+export function serializePal(palette: Palette): string {
+  const lines = ['JASC-PAL', '0100', String(palette.colors.length)]
+  for (const c of palette.colors) lines.push(c.join(' '))
+  // JASC readers expect CRLF line endings
+  return lines.join('\r\n') + '\r\n'
+}
+
+// --- Adobe Swatch Exchange .ase ---
+
+const ASE_GROUP_START = 0xc001
+const ASE_GROUP_END = 0xc002
+const ASE_COLOR_ENTRY = 0x0001
+
+export function parseAse(buffer: ArrayBuffer, fallbackName: string): Palette {
+  const view = new DataView(buffer)
+  if (buffer.byteLength < 12 || readAscii(view, 0, 4) !== 'ASEF') throw new Error('不是有效的 ASE 文件')
+
+  const blockCount = view.getUint32(8)
+  let name = fallbackName
+  const colors: RGB[] = []
+  let offset = 12
+
+  for (let i = 0; i < blockCount && offset + 6 <= buffer.byteLength; i++) {
+    const type = view.getUint16(offset)
+    const length = view.getUint32(offset + 2)
+    const body = offset + 6
+    offset = body + length
+
+    if (type === ASE_GROUP_START) {
+      if (name === fallbackName) name = readUtf16Name(view, body).text || name
+    } else if (type === ASE_COLOR_ENTRY) {
+      const { end } = readUtf16Name(view, body)
+      const model = readAscii(view, end, 4)
+      const v = (k: number) => view.getFloat32(end + 4 + k * 4)
+      switch (model) {
+        case 'RGB ':
+          colors.push([clampByte(v(0) * 255), clampByte(v(1) * 255), clampByte(v(2) * 255)])
+          break
+        case 'CMYK': {
+          const k = v(3)
+          colors.push([
+            clampByte(255 * (1 - v(0)) * (1 - k)),
+            clampByte(255 * (1 - v(1)) * (1 - k)),
+            clampByte(255 * (1 - v(2)) * (1 - k)),
+          ])
+          break
+        }
+        case 'Gray': {
+          const g = clampByte(v(0) * 255)
+          colors.push([g, g, g])
+          break
+        }
+        case 'LAB ':
+          colors.push(labToRgb(v(0) * 100, v(1), v(2)))
+          break
+      }
+    }
+  }
+
+  return { name, colors }
+}
+
+export function serializeAse(palette: Palette): Uint8Array<ArrayBuffer> {
+  const blocks: Uint8Array[] = []
+  blocks.push(aseBlock(ASE_GROUP_START, [utf16Name(palette.name)]))
+  palette.colors.forEach(c => {
+    const values = new DataView(new ArrayBuffer(4 + 12 + 2))
+    values.setUint8(0, 0x52) // 'R'
+    values.setUint8(1, 0x47) // 'G'
+    values.setUint8(2, 0x42) // 'B'
+    values.setUint8(3, 0x20) // ' '
+    values.setFloat32(4, c[0] / 255)
+    values.setFloat32(8, c[1] / 255)
+    values.setFloat32(12, c[2] / 255)
+    values.setUint16(16, 2) // normal (non-spot) color
+    blocks.push(aseBlock(ASE_COLOR_ENTRY, [utf16Name(`#${toHex(c)}`), new Uint8Array(values.buffer)]))
+  })
+  blocks.push(aseBlock(ASE_GROUP_END, []))
+
+  const header = new DataView(new ArrayBuffer(12))
+  header.setUint32(0, 0x41534546) // 'ASEF'
+  header.setUint16(4, 1)
+  header.setUint16(6, 0)
+  header.setUint32(8, blocks.length)
+  return concatBytes([new Uint8Array(header.buffer), ...blocks])
+}
+
+function aseBlock(type: number, parts: Uint8Array[]): Uint8Array {
+  const body = concatBytes(parts)
+  const head = new DataView(new ArrayBuffer(6))
+  head.setUint16(0, type)
+  head.setUint32(2, body.length)
+  return concatBytes([new Uint8Array(head.buffer), body])
+}
+
+/** ASE names: uint16 length (code units incl. terminator) + UTF-16BE + 0x0000 */
+function utf16Name(text: string): Uint8Array {
+  const view = new DataView(new ArrayBuffer(2 + (text.length + 1) * 2))
+  view.setUint16(0, text.length + 1)
+  for (let i = 0; i < text.length; i++) view.setUint16(2 + i * 2, text.charCodeAt(i))
+  return new Uint8Array(view.buffer)
+}
+
+function readUtf16Name(view: DataView, offset: number): { text: string; end: number } {
+  const len = view.getUint16(offset)
+  let text = ''
+  for (let i = 0; i < len; i++) {
+    const code = view.getUint16(offset + 2 + i * 2)
+    if (code === 0) break
+    text += String.fromCharCode(code)
+  }
+  return { text, end: offset + 2 + len * 2 }
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let s = ''
+  for (let i = 0; i < length; i++) s += String.fromCharCode(view.getUint8(offset + i))
+  return s
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+/** CIELAB (D50, as used by ASE) → sRGB */
+function labToRgb(l: number, a: number, b: number): RGB {
+  const fy = (l + 16) / 116
+  const fx = fy + a / 500
+  const fz = fy - b / 200
+  const f = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787)
+  const x = 0.9642 * f(fx), y = f(fy), z = 0.8249 * f(fz)
+  // Bradford-adapted D50 XYZ → linear sRGB
+  const lr = 3.1339 * x - 1.6169 * y - 0.4906 * z
+  const lg = -0.9788 * x + 1.9161 * y + 0.0335 * z
+  const lb = 0.0719 * x - 0.2290 * y + 1.4052 * z
+  const gamma = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055)
+  return [clampByte(gamma(lr) * 255), clampByte(gamma(lg) * 255), clampByte(gamma(lb) * 255)]
+}
+
+function clampByte(v: number): number {
+  return Math.max(0, Math.min(255, Math.round(v)))
+}
@@ -0,0 +1,34 @@
+/**
+ * User palette persistence (localStorage)
+ */
+
+import type { Palette } from './mosaic'
+
+const STORAGE_KEY = 'mosaic-studio:palettes'
+
+export function loadCustomPalettes(): Palette[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(isPalette) : []
+  } catch {
+    return []
+  }
+}
+
+export function saveCustomPalettes(palettes: Palette[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(palettes))
+  } catch {
+    // Storage full or disabled (private mode) — palettes just won't survive a reload
+  }
+}
+
+export function isPalette(value: unknown): value is Palette {
+  if (!value || typeof value !== 'object') return false
+  const p = value as Palette
+  return typeof p.name === 'string'
+    && Array.isArray(p.colors)
+    && p.colors.every(c => Array.isArray(c) && c.length === 3 && c.every(v => typeof v === 'number'))
+}
@@ -0,0 +1,108 @@
+/**
+ * Minimal PDF writer
+ * Vector rectangles, lines and text in the standard 14 fonts — enough for printable charts
+ * without pulling in a PDF library. Coordinates are in points with the origin at the top left.
+ */
+
+export type PdfFont = 'sans' | 'sans-bold' | 'mono-bold'
+
+const FONTS: Record<PdfFont, { ref: string; base: string }> = {
+  sans: { ref: 'F1', base: 'Helvetica' },
+  'sans-bold': { ref: 'F2', base: 'Helvetica-Bold' },
+  'mono-bold': { ref: 'F3', base: 'Courier-Bold' },
+}
+
+// Standard font advance widths (per 1pt of font size) used for centering
+const MONO_ADVANCE = 0.6
+const SANS_DIGIT_ADVANCE = 0.556
+
+export const A4: [number, number] = [595.28, 841.89]
+
+type RGB = [number, number, number]
+
+export class PdfPage {
+  readonly ops: string[] = []
+  private currentFill = ''
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  fillColor([r, g, b]: RGB) {
+    // Charts alternate cell and symbol colors constantly; skip no-op color changes
+    const op = `${n(r / 255)} ${n(g / 255)} ${n(b / 255)} rg`
+    if (op === this.currentFill) return
+    this.currentFill = op
+    this.ops.push(op)
+  }
+
+  strokeColor([r, g, b]: RGB, lineWidth: number) {
+    this.ops.push(`${n(r / 255)} ${n(g / 255)} ${n(b / 255)} RG ${n(lineWidth)} w`)
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    this.ops.push(`${n(x)} ${n(this.height - y - h)} ${n(w)} ${n(h)} re f`)
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number) {
+    this.ops.push(`${n(x)} ${n(this.height - y - h)} ${n(w)} ${n(h)} re S`)
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number) {
+    this.ops.push(`${n(x1)} ${n(this.height - y1)} m ${n(x2)} ${n(this.height - y2)} l S`)
+  }
+
+  /** Text with its baseline at y; align 'center' is exact for the mono font and for digits in the sans fonts */
+  text(x: number, y: number, size: number, str: string, font: PdfFont = 'sans', align: 'left' | 'center' = 'left') {
+    if (align === 'center') {
+      const advance = font === 'mono-bold' ? MONO_ADVANCE : SANS_DIGIT_ADVANCE
+      x -= (str.length * advance * size) / 2
+    }
+    this.ops.push(`BT /${FONTS[font].ref} ${n(size)} Tf ${n(x)} ${n(this.height - y)} Td (${escapeText(str)}) Tj ET`)
+  }
+}
+
+/** Serialize pages into a PDF file */
+export function buildPdf(pages: PdfPage[], title: string): Uint8Array<ArrayBuffer> {
+  const objects: string[] = []
+  const add = (body: string) => objects.push(body)
+
+  // 1 catalog, 2 page tree, 3 info, 4-6 fonts, then a page + content stream pair per page
+  const fontList = Object.values(FONTS)
+  const firstPage = 4 + fontList.length
+  const kids = pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(' ')
+  const fontDict = fontList.map((f, i) => `/${f.ref} ${4 + i} 0 R`).join(' ')
+
+  add('<< /Type /Catalog /Pages 2 0 R >>')
+  add(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`)
+  add(`<< /Title (${escapeText(title)}) /Producer (Mosaic Studio) >>`)
+  for (const f of fontList) add(`<< /Type /Font /Subtype /Type1 /BaseFont /${f.base} /Encoding /WinAnsiEncoding >>`)
+  pages.forEach((page, i) => {
+    const content = page.ops.join('\n')
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${n(page.width)} ${n(page.height)}] /Resources << /Font << ${fontDict} >> >> /Contents ${firstPage + i * 2 + 1} 0 R >>`)
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+
+  // Everything is Latin-1, so string length equals byte length for the xref offsets
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(out.length)
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xref = out.length
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  for (const off of offsets) out += `${String(off).padStart(10, '0')} 00000 n \n`
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  const bytes = new Uint8Array(out.length)
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i)
+  return bytes
+}
+
+function n(v: number): string {
+  return Number.isInteger(v) ? String(v) : v.toFixed(2).replace(/0+$/, '')
+}
+
+/** PDF literal string body; characters outside Latin-1 become '?' */
+function escapeText(s: string): string {
+  return s.replace(/[^\x20-\xff]/g, '?').replace(/[\\()]/g, ch => `\\${ch}`)
+}
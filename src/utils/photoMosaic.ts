@@ -0,0 +1,226 @@
+/**
+ * Photo mosaic
+ * Replaces every cell with the best-matching image from a user tile library (photos, emoji
+ * sprites…). Tiles are matched on their average color or on their 2×2 sub-block colors, can be
+ * limited in how often each is reused, and can be tinted toward the cell's output color.
+ */
+
+import type { MosaicGrid, RawImage } from './mosaic'
+import { sampleRegion } from './sampling'
+import { cellBounds } from './tiling'
+
+export type TileMatch = 'mean' | 'quad'
+
+export const TILE_MATCHES: { id: TileMatch; name: string }[] = [
+  { id: 'mean', name: '平均色' },
+  { id: 'quad', name: '2×2 分块' },
+]
+
+// Tiles are stored as square thumbnails of this side
+export const TILE_SIZE = 64
+
+type RGB = [number, number, number]
+
+export interface PhotoTile {
+  name: string
+  image: RawImage // TILE_SIZE × TILE_SIZE
+  mean: RGB
+  quads: RGB[] // top-left, top-right, bottom-left, bottom-right
+}
+
+/** Center-crop an image to a square and box-downsample it into a tile thumbnail */
+export function makeTile(name: string, source: RawImage): PhotoTile {
+  const side = Math.min(source.width, source.height)
+  const ox = Math.floor((source.width - side) / 2)
+  const oy = Math.floor((source.height - side) / 2)
+  const data = new Uint8ClampedArray(TILE_SIZE * TILE_SIZE * 4)
+  const src = source.data
+
+  for (let ty = 0; ty < TILE_SIZE; ty++) {
+    const y0 = oy + Math.floor((ty * side) / TILE_SIZE)
+    const y1 = Math.max(y0 + 1, oy + Math.floor(((ty + 1) * side) / TILE_SIZE))
+    for (let tx = 0; tx < TILE_SIZE; tx++) {
+      const x0 = ox + Math.floor((tx * side) / TILE_SIZE)
+      const x1 = Math.max(x0 + 1, ox + Math.floor(((tx + 1) * side) / TILE_SIZE))
+      let r = 0, g = 0, b = 0, a = 0, n = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const pos = (y * source.width + x) * 4
+          r += src[pos]
+          g += src[pos + 1]
+          b += src[pos + 2]
+          a += src[pos + 3]
+          n++
+        }
+      }
+      const pos = (ty * TILE_SIZE + tx) * 4
+      data[pos] = r / n
+      data[pos + 1] = g / n
+      data[pos + 2] = b / n
+      data[pos + 3] = a / n
+    }
+  }
+
+  const image: RawImage = { data, width: TILE_SIZE, height: TILE_SIZE }
+  const half = TILE_SIZE / 2
+  const quad = (x: number, y: number) => regionMean(image, x, y, x + half, y + half)
+  return {
+    name,
+    image,
+    mean: regionMean(image, 0, 0, TILE_SIZE, TILE_SIZE),
+    quads: [quad(0, 0), quad(half, 0), quad(0, half), quad(half, half)],
+  }
+}
+
+/** Alpha-aware mean color of a pixel rectangle, which must hold at least one pixel */
+function regionMean({ data, width }: RawImage, x0: number, y0: number, x1: number, y1: number): RGB {
+  return sampleRegion(data, width, { x0, y0, x1, y1, cx: x0, cy: y0 }, 'mean')
+}
+
+/** Mean colors of the four quadrants of a rectangle; a quadrant with no pixels uses the whole rectangle */
+function quadMeans(image: RawImage, x0: number, y0: number, x1: number, y1: number): RGB[] {
+  const mx = Math.round((x0 + x1) / 2)
+  const my = Math.round((y0 + y1) / 2)
+  const whole = regionMean(image, x0, y0, x1, y1)
+  const part = (ax: number, ay: number, bx: number, by: number) =>
+    bx > ax && by > ay ? regionMean(image, ax, ay, bx, by) : whole
+  return [part(x0, y0, mx, my), part(mx, y0, x1, my), part(x0, my, mx, y1), part(mx, my, x1, y1)]
+}
+
+/** Small deterministic PRNG, so the same settings always give the same mosaic */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a tile for every drawn cell by the source colors under it (the cell's sampled color, or the
+ * means of its four bounding-box quadrants). With a reuse limit, cells are visited in a fixed
+ * shuffled order so no corner gets all the best matches; once every tile is used up the limit is dropped.
+ * Returns the tile index per cell, -1 for skipped cells.
+ */
+export function assignTiles(
+  image: RawImage,
+  grid: MosaicGrid,
+  sampled: Float32Array,
+  tiles: PhotoTile[],
+  match: TileMatch,
+  reuse: number // max uses per tile, 0 = unlimited
+): Int32Array {
+  const { cols, rows, layout, cellSize, alpha } = grid
+  const count = cols * rows
+  const index = new Int32Array(count).fill(-1)
+  const uses = new Uint32Array(tiles.length)
+
+  const order = Array.from({ length: count }, (_, i) => i)
+  if (reuse > 0) {
+    const random = mulberry32(count)
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+  }
+
+  for (const i of order) {
+    if (!alpha[i]) continue
+    let target: RGB[]
+    if (match === 'quad') {
+      const [x0, y0, x1, y1] = cellBounds(layout, i % cols, Math.floor(i / cols), cellSize, image.width, image.height)
+      target = x1 > x0 && y1 > y0 ? quadMeans(image, x0, y0, x1, y1) : [0, 1, 2, 3].map(() => cellColor(sampled, i))
+    } else {
+      target = [cellColor(sampled, i)]
+    }
+
+    const best = closestTile(tiles, target, match, reuse > 0 ? t => uses[t] < reuse : () => true)
+      ?? closestTile(tiles, target, match, () => true)!
+    index[i] = best
+    uses[best]++
+  }
+  return index
+}
+
+/** Index of the allowed tile nearest to the target features, or null if none is allowed */
+function closestTile(tiles: PhotoTile[], target: RGB[], match: TileMatch, allowed: (t: number) => boolean): number | null {
+  let best: number | null = null
+  let bestDist = Infinity
+  for (let t = 0; t < tiles.length; t++) {
+    if (!allowed(t)) continue
+    const features = match === 'quad' ? tiles[t].quads : [tiles[t].mean]
+    let dist = 0
+    for (let k = 0; k < target.length; k++) {
+      const a = target[k]
+      const b = features[k]
+      dist += (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+    }
+    if (dist < bestDist) {
+      bestDist = dist
+      best = t
+    }
+  }
+  return best
+}
+
+function cellColor(sampled: Float32Array, i: number): RGB {
+  return [sampled[i * 3], sampled[i * 3 + 1], sampled[i * 3 + 2]]
+}
+
+// Summed-area tables per tile, built on first use by the renderers
+const tileSums = new WeakMap<PhotoTile, Uint32Array>()
+
+/**
+ * Tile color over the texel rectangle [u0, u1) × [v0, v1), in tile pixels: the box average when the
+ * rectangle spans several texels (downscaling), the nearest texel otherwise.
+ */
+export function tileColor(tile: PhotoTile, u0: number, v0: number, u1: number, v1: number): [number, number, number, number] {
+  const side = TILE_SIZE + 1
+  let sums = tileSums.get(tile)
+  if (!sums) {
+    sums = new Uint32Array(side * side * 4)
+    const { data } = tile.image
+    for (let y = 1; y < side; y++) {
+      for (let x = 1; x < side; x++) {
+        const pos = (y * side + x) * 4
+        const src = ((y - 1) * TILE_SIZE + x - 1) * 4
+        for (let c = 0; c < 4; c++) {
+          sums[pos + c] = data[src + c] + sums[pos - 4 + c] + sums[pos - side * 4 + c] - sums[pos - side * 4 - 4 + c]
+        }
+      }
+    }
+    tileSums.set(tile, sums)
+  }
+
+  const clamp = (v: number) => Math.max(0, Math.min(TILE_SIZE, v))
+  let x0 = clamp(Math.round(u0))
+  let y0 = clamp(Math.round(v0))
+  let x1 = clamp(Math.round(u1))
+  let y1 = clamp(Math.round(v1))
+  if (x1 <= x0) {
+    x0 = Math.min(TILE_SIZE - 1, Math.floor((u0 + u1) / 2))
+    x1 = x0 + 1
+  }
+  if (y1 <= y0) {
+    y0 = Math.min(TILE_SIZE - 1, Math.floor((v0 + v1) / 2))
+    y1 = y0 + 1
+  }
+  const n = (x1 - x0) * (y1 - y0)
+  const out: [number, number, number, number] = [0, 0, 0, 0]
+  for (let c = 0; c < 4; c++) {
+    out[c] = (sums[(y1 * side + x1) * 4 + c] - sums[(y0 * side + x1) * 4 + c]
+      - sums[(y1 * side + x0) * 4 + c] + sums[(y0 * side + x0) * 4 + c]) / n
+  }
+  return out
+}
+
+/** Decode an image file into a tile; the canvas does the heavy downscale of large photos */
+export async function tileFromFile(file: File): Promise<PhotoTile> {
+  const bitmap = await createImageBitmap(file)
+  const side = Math.min(bitmap.width, bitmap.height)
+  const ctx = new OffscreenCanvas(TILE_SIZE, TILE_SIZE).getContext('2d')!
+  ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, TILE_SIZE, TILE_SIZE)
+  bitmap.close()
+  return makeTile(file.name.replace(/\.[^.]+$/, ''), ctx.getImageData(0, 0, TILE_SIZE, TILE_SIZE))
+}
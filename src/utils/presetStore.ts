@@ -0,0 +1,27 @@
+/**
+ * Settings preset persistence (localStorage)
+ */
+
+import { parsePreset, type Preset } from './settings'
+
+const STORAGE_KEY = 'mosaic-studio:presets'
+
+export function loadPresets(): Preset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    // Re-parsed so presets saved by older versions pick up defaults for newer settings
+    return Array.isArray(parsed) ? parsed.map(parsePreset).filter(p => p !== null) : []
+  } catch {
+    return []
+  }
+}
+
+export function savePresets(presets: Preset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch {
+    // Storage full or disabled (private mode) — presets just won't survive a reload
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Block sampling strategies
+ * Reduce all pixels of a mosaic block to a single representative color
+ */
+
+export type SamplingMode = 'center' | 'mean' | 'median' | 'dominant' | 'luminance'
+
+export const SAMPLINGS: { id: SamplingMode; name: string }[] = [
+  { id: 'center', name: '中心点' },
+  { id: 'mean', name: '平均' },
+  { id: 'median', name: '中位数' },
+  { id: 'dominant', name: '主色' },
+  { id: 'luminance', name: '亮度加权' },
+]
+
+type RGB = [number, number, number]
+
+// Shared per-channel histograms for the median sampler
+const histR = new Uint32Array(256)
+const histG = new Uint32Array(256)
+const histB = new Uint32Array(256)
+
+/**
+ * Pixels of one cell: the rectangle [x0, x1) × [y0, y1) clipped to the image, narrowed to the
+ * pixels `inside` accepts for non-square cells. (cx, cy) is the pixel the center sampler reads.
+ */
+export interface CellRegion {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+  cx: number
+  cy: number
+  inside?: (x: number, y: number) => boolean
+}
+
+/**
+ * The square block whose top-left corner is (x, y) as a region.
+ * The block is clipped to the image, so edge blocks only read the pixels that exist.
+ */
+export function blockRegion(width: number, height: number, x: number, y: number, size: number): CellRegion {
+  return {
+    x0: x,
+    y0: y,
+    x1: Math.min(x + size, width),
+    y1: Math.min(y + size, height),
+    cx: Math.min(x + Math.floor(size / 2), width - 1),
+    cy: Math.min(y + Math.floor(size / 2), height - 1),
+  }
+}
+
+/** Sample any cell region; the region must hold at least one pixel */
+export function sampleRegion(pixels: Uint8ClampedArray, width: number, region: CellRegion, mode: SamplingMode): RGB {
+  if (mode === 'center') {
+    const pos = (region.cy * width + region.cx) * 4
+    // A transparent center says nothing about the block's visible color
+    if (pixels[pos + 3] < 128) return weightedMean(pixels, width, region, false)
+    return [pixels[pos], pixels[pos + 1], pixels[pos + 2]]
+  }
+
+  switch (mode) {
+    case 'mean':
+      return weightedMean(pixels, width, region, false)
+    case 'luminance':
+      return weightedMean(pixels, width, region, true)
+    // Vote with the visible pixels only, unless the whole block is transparent
+    case 'median':
+      return median(pixels, width, region, 128) ?? median(pixels, width, region, 0)!
+    case 'dominant':
+      return dominant(pixels, width, region, 128) ?? dominant(pixels, width, region, 0)!
+  }
+}
+
+/** Fraction of the region's pixels that are at least half opaque, and the region's mean alpha */
+export function regionAlpha(pixels: Uint8ClampedArray, width: number, region: CellRegion): [coverage: number, mean: number] {
+  const { x0, y0, x1, y1, inside } = region
+  let opaque = 0
+  let sum = 0
+  let count = 0
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      if (inside && !inside(px, py)) continue
+      const a = pixels[(py * width + px) * 4 + 3]
+      if (a >= 128) opaque++
+      sum += a
+      count++
+    }
+  }
+  return [opaque / count, sum / count]
+}
+
+/**
+ * Plain or luminance-weighted average; the weighted form keeps small highlights from washing out.
+ * Pixels also count by their alpha, so the color hidden under transparent pixels does not bleed in.
+ */
+function weightedMean(pixels: Uint8ClampedArray, width: number, region: CellRegion, byLuminance: boolean): RGB {
+  const { x0, y0, x1, y1, inside } = region
+  let r = 0, g = 0, b = 0, total = 0
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (inside && !inside(x, y)) continue
+      const pos = (y * width + x) * 4
+      const pr = pixels[pos], pg = pixels[pos + 1], pb = pixels[pos + 2]
+      // Small floor so an all-black block still has a defined average
+      const w = (byLuminance ? (0.299 * pr + 0.587 * pg + 0.114 * pb) / 255 + 0.01 : 1) * (pixels[pos + 3] + 1) / 256
+      r += pr * w
+      g += pg * w
+      b += pb * w
+      total += w
+    }
+  }
+  return [r / total, g / total, b / total]
+}
+
+/** Per-channel median via 256-bin histograms over pixels with at least `minAlpha`; null if there are none */
+function median(pixels: Uint8ClampedArray, width: number, region: CellRegion, minAlpha: number): RGB | null {
+  const { x0, y0, x1, y1, inside } = region
+  histR.fill(0)
+  histG.fill(0)
+  histB.fill(0)
+  let count = 0
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (inside && !inside(x, y)) continue
+      const pos = (y * width + x) * 4
+      if (pixels[pos + 3] < minAlpha) continue
+      count++
+      histR[pixels[pos]]++
+      histG[pixels[pos + 1]]++
+      histB[pixels[pos + 2]]++
+    }
+  }
+  if (!count) return null
+  const half = count / 2
+  return [histMedian(histR, half), histMedian(histG, half), histMedian(histB, half)]
+}
+
+function histMedian(hist: Uint32Array, half: number): number {
+  let acc = 0
+  for (let v = 0; v < 256; v++) {
+    acc += hist[v]
+    if (acc >= half) return v
+  }
+  return 255
+}
+
+/**
+ * Most frequent color. Pixels are bucketed at 5 bits per channel so near-identical
+ * colors vote together; the result is the average of the winning bucket.
+ * Only pixels with at least `minAlpha` vote; null if there are none.
+ */
+function dominant(pixels: Uint8ClampedArray, width: number, region: CellRegion, minAlpha: number): RGB | null {
+  const { x0, y0, x1, y1, inside } = region
+  const buckets = new Map<number, [count: number, r: number, g: number, b: number]>()
+  let best: [number, number, number, number] | undefined
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      if (inside && !inside(x, y)) continue
+      const pos = (y * width + x) * 4
+      if (pixels[pos + 3] < minAlpha) continue
+      const pr = pixels[pos], pg = pixels[pos + 1], pb = pixels[pos + 2]
+      const key = ((pr >> 3) << 10) | ((pg >> 3) << 5) | (pb >> 3)
+      let bucket = buckets.get(key)
+      if (!bucket) {
+        bucket = [0, 0, 0, 0]
+        buckets.set(key, bucket)
+      }
+      bucket[0]++
+      bucket[1] += pr
+      bucket[2] += pg
+      bucket[3] += pb
+      if (!best || bucket[0] > best[0]) best = bucket
+    }
+  }
+  if (!best) return null
+  const [count, r, g, b] = best
+  return [r / count, g / count, b / count]
+}
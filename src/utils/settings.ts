@@ -0,0 +1,167 @@
+/**
+ * Settings snapshots
+ * Everything that defines the look of a mosaic as one plain object, in MosaicOptions units. The app
+ * saves it as named presets, keeps it in the undo history and encodes it into the URL hash, so a
+ * shared link reproduces the same look. Per-image data (the mask, tile photos) stays out.
+ */
+
+import { BACKGROUNDS, DEFAULT_OPTIONS, PALETTES, SHAPES, type MosaicOptions, type Palette } from './mosaic'
+import { EXTRACT_METHODS, type ExtractMethod } from './adaptive'
+import { NO_ADJUSTMENTS, type Adjustments } from './adjustments'
+import { COLOR_METRICS } from './color'
+import { DITHERS } from './dither'
+import { OUTLINE_MODES } from './outline'
+import { TILE_MATCHES } from './photoMosaic'
+import { SAMPLINGS } from './sampling'
+import { GRID_LAYOUTS } from './tiling'
+import { isPalette } from './paletteStore'
+
+export interface MosaicSettings extends Omit<MosaicOptions, 'mask' | 'tiles' | 'palette'> {
+  // 'palette' mode: a built-in palette by name, or a custom one inlined so links work for anyone
+  palette?: string | Palette
+  adaptiveColors: number
+  adaptiveMethod: ExtractMethod
+}
+
+export interface Preset {
+  name: string
+  settings: MosaicSettings
+}
+
+export const DEFAULT_SETTINGS: MosaicSettings = {
+  ...DEFAULT_OPTIONS,
+  adaptiveColors: 16,
+  adaptiveMethod: 'median-cut',
+}
+
+const HASH_KEY = 'settings'
+
+// Allowed values of the enum fields; anything else falls back to the default
+const CHOICES: Record<string, readonly string[]> = {
+  layout: GRID_LAYOUTS.map(l => l.id),
+  colorMode: ['grayscale', 'color', 'palette', 'adaptive'],
+  colorMetric: COLOR_METRICS.map(m => m.id),
+  shape: SHAPES.map(s => s.id),
+  sampling: SAMPLINGS.map(s => s.id),
+  dither: DITHERS.map(d => d.id),
+  background: BACKGROUNDS.map(b => b.id),
+  alphaMode: ['skip', 'keep'],
+  tileMatch: TILE_MATCHES.map(m => m.id),
+  outline: OUTLINE_MODES.map(m => m.id),
+  adaptiveMethod: EXTRACT_METHODS.map(m => m.id),
+}
+
+// Numbers are clamped into these ranges; counts are also rounded
+const INTEGERS = new Set(['pixelSize', 'levels', 'tileReuse', 'adaptiveColors', 'posterize'])
+const RANGES: Record<string, [number, number]> = {
+  pixelSize: [1, 512],
+  levels: [2, 8],
+  ditherStrength: [0, 1],
+  alphaThreshold: [0, 1],
+  tileReuse: [0, 1e6],
+  tileTint: [0, 1],
+  outlineThreshold: [0, 1],
+  gridLines: [0, 64],
+  adaptiveColors: [2, 256],
+  brightness: [-1, 1],
+  contrast: [-1, 1],
+  gamma: [0.2, 5],
+  saturation: [-1, 1],
+  hue: [-180, 180],
+  posterize: [0, 256],
+  sharpen: [0, 2],
+  sharpenRadius: [1, 64],
+}
+
+/**
+ * Settings from untrusted JSON (a link, an imported preset, an older version): every known field
+ * of the right type is taken, the rest keep their defaults. Returns null for non-objects.
+ */
+export function parseSettings(value: unknown): MosaicSettings | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as Record<string, unknown>
+  const settings = pick(DEFAULT_SETTINGS, raw)
+  settings.adjustments = pick<Adjustments>(NO_ADJUSTMENTS, raw.adjustments)
+  if (typeof raw.palette === 'string' && PALETTES.some(p => p.name === raw.palette)) settings.palette = raw.palette
+  else if (isPalette(raw.palette) && raw.palette.colors.length > 0) settings.palette = raw.palette
+  return settings
+}
+
+/** Copy of `defaults` with every field of `value` that has a valid value of the same type */
+function pick<T extends object>(defaults: T, value: unknown): T {
+  const out = { ...defaults }
+  if (!value || typeof value !== 'object') return out
+  const fields = out as Record<string, unknown>
+  for (const [key, d] of Object.entries(defaults)) {
+    const v = (value as Record<string, unknown>)[key]
+    if (typeof d === 'number' && typeof v === 'number' && Number.isFinite(v)) {
+      const [min, max] = RANGES[key] ?? [-Infinity, Infinity]
+      const n = INTEGERS.has(key) ? Math.round(v) : v
+      fields[key] = Math.max(min, Math.min(max, n))
+    } else if (typeof d === 'string' && typeof v === 'string' && (CHOICES[key]?.includes(v) ?? false)) {
+      fields[key] = v
+    } else if (typeof d === 'boolean' && typeof v === 'boolean') {
+      fields[key] = v
+    } else if ((d === null || isRgb(d)) && (isRgb(v) || (v === null && d === null))) {
+      // Colors; a nullable color (the outline's) defaults to null
+      fields[key] = v
+    }
+  }
+  return out
+}
+
+function isRgb(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every(c => typeof c === 'number' && c >= 0 && c <= 255)
+}
+
+/** URL hash carrying the settings as base64url-encoded JSON */
+export function settingsToHash(settings: MosaicSettings): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(settings))
+  let binary = ''
+  for (const b of bytes) binary += String.fromCharCode(b)
+  const base64 = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+  return `#${HASH_KEY}=${base64}`
+}
+
+/** Settings from a URL hash made by settingsToHash, or null when it carries none (or is corrupt) */
+export function settingsFromHash(hash: string): MosaicSettings | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY)
+  if (!encoded) return null
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0))
+    return parseSettings(JSON.parse(new TextDecoder().decode(bytes)))
+  } catch {
+    return null
+  }
+}
+
+/** A preset from untrusted JSON, or null when it has no name or settings */
+export function parsePreset(value: unknown): Preset | null {
+  if (!value || typeof value !== 'object') return null
+  const { name, settings } = value as { name?: unknown; settings?: unknown }
+  const parsed = parseSettings(settings)
+  return typeof name === 'string' && parsed ? { name, settings: parsed } : null
+}
+
+/** Presets as a downloadable JSON document */
+export function presetsToJson(presets: Preset[]): string {
+  return JSON.stringify({ presets }, null, 2)
+}
+
+/** Presets from a JSON document made by presetsToJson (or a bare array / single preset) */
+export function presetsFromJson(text: string): Preset[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('不是有效的 JSON 文件')
+  }
+  const list = Array.isArray(parsed) ? parsed
+    : parsed && typeof parsed === 'object' && Array.isArray((parsed as { presets?: unknown }).presets)
+      ? (parsed as { presets: unknown[] }).presets
+      : [parsed]
+  const presets = list.map(parsePreset).filter(p => p !== null)
+  if (presets.length === 0) throw new Error('文件中没有预设')
+  return presets
+}
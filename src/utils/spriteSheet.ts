@@ -0,0 +1,101 @@
+/**
+ * Sprite sheet export
+ * Packs animation frames into one atlas image plus a JSON frame manifest in the
+ * Aseprite / TexturePacker "array" layout that game engines such as Phaser and PixiJS load directly.
+ */
+
+import type { RawImage } from './mosaic'
+
+export type SpriteLayout = 'grid' | 'strip'
+
+export const SPRITE_LAYOUTS: { id: SpriteLayout; name: string }[] = [
+  { id: 'grid', name: '网格' },
+  { id: 'strip', name: '横条' },
+]
+
+interface Rect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface SpriteFrame {
+  filename: string
+  frame: Rect
+  rotated: false
+  trimmed: false
+  spriteSourceSize: Rect
+  sourceSize: { w: number; h: number }
+  duration: number // ms
+}
+
+export interface SpriteManifest {
+  frames: SpriteFrame[]
+  meta: {
+    app: string
+    version: string
+    image: string
+    format: 'RGBA8888'
+    size: { w: number; h: number }
+    scale: '1'
+    frameTags: { name: string; from: number; to: number; direction: 'forward' }[]
+  }
+}
+
+export interface SpriteSheet {
+  image: RawImage
+  manifest: SpriteManifest
+}
+
+/**
+ * Lay frames out left-to-right, top-to-bottom. The grid layout uses the squarest column count;
+ * the strip layout is a single row. `name` labels the frames and `imageFile` is the atlas file name
+ * the manifest points at.
+ */
+export function buildSpriteSheet(
+  frames: { image: RawImage; delay: number }[],
+  layout: SpriteLayout,
+  name: string,
+  imageFile: string
+): SpriteSheet {
+  const { width: w, height: h } = frames[0].image
+  const columns = layout === 'strip' ? frames.length : Math.ceil(Math.sqrt(frames.length))
+  const rows = Math.ceil(frames.length / columns)
+  const sheetW = columns * w
+  const sheetH = rows * h
+  const data = new Uint8ClampedArray(sheetW * sheetH * 4)
+
+  const entries = frames.map(({ image, delay }, i): SpriteFrame => {
+    const x = (i % columns) * w
+    const y = Math.floor(i / columns) * h
+    for (let row = 0; row < h; row++) {
+      data.set(image.data.subarray(row * w * 4, (row + 1) * w * 4), ((y + row) * sheetW + x) * 4)
+    }
+    return {
+      filename: `${name} ${i}`,
+      frame: { x, y, w, h },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w, h },
+      sourceSize: { w, h },
+      duration: delay,
+    }
+  })
+
+  return {
+    image: { data, width: sheetW, height: sheetH },
+    manifest: {
+      frames: entries,
+      meta: {
+        app: 'Mosaic Studio',
+        version: '1.0',
+        image: imageFile,
+        format: 'RGBA8888',
+        size: { w: sheetW, h: sheetH },
+        scale: '1',
+        frameTags: [{ name, from: 0, to: frames.length - 1, direction: 'forward' }],
+      },
+    },
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Grid tilings
+ * Cell geometry for every grid layout: which cell owns a point, where a cell's center is and the
+ * polygon it covers. `size` is the cell width (for flat hexes the height, since they are the
+ * transposed pointy ones). Cells are addressed by (col, row) in a cols × rows array like the square
+ * grid; offset rows or columns keep the array rectangular, so some edge cells may lie outside the image.
+ */
+
+export type GridLayout = 'square' | 'hex-pointy' | 'hex-flat' | 'triangle' | 'brick'
+
+export const GRID_LAYOUTS: { id: GridLayout; name: string; icon: string }[] = [
+  { id: 'square', name: '方格', icon: '▦' },
+  { id: 'hex-pointy', name: '尖顶六边形', icon: '⬢' },
+  { id: 'hex-flat', name: '平顶六边形', icon: '⬣' },
+  { id: 'triangle', name: '三角形', icon: '▲' },
+  { id: 'brick', name: '错位砖', icon: '▤' },
+]
+
+type Point = [number, number]
+
+const SQRT3 = Math.sqrt(3)
+
+/** Columns and rows needed to cover a width × height image */
+export function gridSize(layout: GridLayout, width: number, height: number, size: number): [cols: number, rows: number] {
+  switch (layout) {
+    case 'square':
+      return [Math.ceil(width / size), Math.ceil(height / size)]
+    case 'hex-pointy':
+      // Rows are 1.5 circumradii apart; the first row and column are centered on the image edge
+      return [Math.ceil(width / size) + 1, Math.ceil(height / (size * SQRT3 / 2)) + 1]
+    case 'hex-flat': {
+      const [rows, cols] = gridSize('hex-pointy', height, width, size)
+      return [cols, rows]
+    }
+    case 'triangle':
+      // Triangles alternate up/down every half side
+      return [Math.ceil((2 * width) / size) + 1, Math.ceil(height / (size * SQRT3 / 2))]
+    case 'brick':
+      // Odd rows start half a cell left of the image
+      return [Math.ceil(width / size + 0.5), Math.ceil(height / size)]
+  }
+}
+
+/** Cell (col, row) whose area contains the point; may fall outside the grid for points outside the image */
+function locate(layout: GridLayout, x: number, y: number, size: number): Point {
+  switch (layout) {
+    case 'square':
+      return [Math.floor(x / size), Math.floor(y / size)]
+    case 'hex-pointy':
+      return hexAt(x, y, size)
+    case 'hex-flat': {
+      const [col, row] = hexAt(y, x, size)
+      return [row, col]
+    }
+    case 'triangle': {
+      const h = size * SQRT3 / 2
+      const row = Math.floor(y / h)
+      const fy = y / h - row
+      const u = (2 * x) / size
+      const k = Math.floor(u)
+      const fx = u - k
+      // Within a half-side strip the diagonal splits triangle k from k + 1
+      const up = ((k + row) & 1) === 0
+      return [(up ? fx < fy : fx + fy < 1) ? k : k + 1, row]
+    }
+    case 'brick': {
+      const row = Math.floor(y / size)
+      return [Math.floor(x / size + (row & 1) / 2), row]
+    }
+  }
+}
+
+/** Pointy-top hex by cube rounding; odd rows are shifted right by half a cell */
+function hexAt(x: number, y: number, size: number): Point {
+  const radius = size / SQRT3
+  const q = (x * SQRT3 / 3 - y / 3) / radius
+  const r = (y * 2 / 3) / radius
+  let rq = Math.round(q)
+  let rr = Math.round(r)
+  const rs = Math.round(-q - r)
+  const dq = Math.abs(rq - q)
+  const dr = Math.abs(rr - r)
+  const ds = Math.abs(rs + q + r)
+  if (dq > dr && dq > ds) rq = -rr - rs
+  else if (dr > ds) rr = -rq - rs
+  return [rq + (rr - (rr & 1)) / 2, rr]
+}
+
+/** Index of the cell containing the point, clamped to the grid */
+export function cellAt(layout: GridLayout, x: number, y: number, size: number, cols: number, rows: number): number {
+  const [col, row] = locate(layout, x, y, size)
+  return Math.max(0, Math.min(rows - 1, row)) * cols + Math.max(0, Math.min(cols - 1, col))
+}
+
+/** Center of the cell (the centroid for triangles) */
+export function cellCenter(layout: GridLayout, col: number, row: number, size: number): Point {
+  switch (layout) {
+    case 'square':
+      return [(col + 0.5) * size, (row + 0.5) * size]
+    case 'hex-pointy':
+      return [(col + (row & 1) / 2) * size, row * size * SQRT3 / 2]
+    case 'hex-flat': {
+      const [y, x] = cellCenter('hex-pointy', row, col, size)
+      return [x, y]
+    }
+    case 'triangle': {
+      const h = size * SQRT3 / 2
+      const up = ((col + row) & 1) === 0
+      return [(col * size) / 2, (row + (up ? 2 / 3 : 1 / 3)) * h]
+    }
+    case 'brick':
+      return [(col + 0.5 - (row & 1) / 2) * size, (row + 0.5) * size]
+  }
+}
+
+/** Corners of the cell, clockwise */
+export function cellPolygon(layout: GridLayout, col: number, row: number, size: number): Point[] {
+  switch (layout) {
+    case 'square':
+    case 'brick': {
+      const [cx, cy] = cellCenter(layout, col, row, size)
+      const half = size / 2
+      return [[cx - half, cy - half], [cx + half, cy - half], [cx + half, cy + half], [cx - half, cy + half]]
+    }
+    case 'hex-pointy': {
+      const [cx, cy] = cellCenter(layout, col, row, size)
+      const radius = size / SQRT3
+      return Array.from({ length: 6 }, (_, k): Point => {
+        const angle = (Math.PI / 3) * k - Math.PI / 2
+        return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)]
+      })
+    }
+    case 'hex-flat':
+      return cellPolygon('hex-pointy', row, col, size).map(([y, x]): Point => [x, y]).reverse()
+    case 'triangle': {
+      const h = size * SQRT3 / 2
+      const x = (col * size) / 2
+      const top = row * h
+      return ((col + row) & 1) === 0
+        ? [[x, top], [x + size / 2, top + h], [x - size / 2, top + h]]
+        : [[x - size / 2, top], [x + size / 2, top], [x, top + h]]
+    }
+  }
+}
+
+/** (col, row) of every cell sharing an edge with this one; may lie outside the grid */
+export function cellNeighbors(layout: GridLayout, col: number, row: number): Point[] {
+  switch (layout) {
+    case 'square':
+      return [[col, row - 1], [col + 1, row], [col, row + 1], [col - 1, row]]
+    case 'hex-pointy': {
+      // Odd rows are shifted right, so their diagonal neighbours sit one column further right
+      const d = row & 1
+      return [
+        [col - 1 + d, row - 1], [col + d, row - 1], [col + 1, row],
+        [col + d, row + 1], [col - 1 + d, row + 1], [col - 1, row],
+      ]
+    }
+    case 'hex-flat':
+      return cellNeighbors('hex-pointy', row, col).map(([r, c]): Point => [c, r])
+    case 'triangle':
+      // Up triangles share their base with the row below, down triangles with the row above
+      return [[col - 1, row], [col + 1, row], ((col + row) & 1) === 0 ? [col, row + 1] : [col, row - 1]]
+    case 'brick': {
+      // Odd rows start half a cell left, so cell c of an even row touches c and c + 1 of odd rows
+      const d = (row & 1) === 0 ? 0 : -1
+      return [
+        [col + d, row - 1], [col + d + 1, row - 1], [col + 1, row],
+        [col + d + 1, row + 1], [col + d, row + 1], [col - 1, row],
+      ]
+    }
+  }
+}
+
+/** Side of the largest square box centered in the cell that shapes (circle, diamond, glyphs) are drawn into */
+export function cellInset(layout: GridLayout, size: number): number {
+  // Triangles fit their incircle of diameter side / √3; the other cells are `size` across
+  return layout === 'triangle' ? size / SQRT3 : size
+}
+
+/** Integer pixel bounds [x0, x1) × [y0, y1) of the cell clipped to the image */
+export function cellBounds(
+  layout: GridLayout, col: number, row: number, size: number, width: number, height: number
+): [x0: number, y0: number, x1: number, y1: number] {
+  const corners = cellPolygon(layout, col, row, size)
+  const xs = corners.map(p => p[0])
+  const ys = corners.map(p => p[1])
+  return [
+    Math.max(0, Math.floor(Math.min(...xs))),
+    Math.max(0, Math.floor(Math.min(...ys))),
+    Math.min(width, Math.ceil(Math.max(...xs))),
+    Math.min(height, Math.ceil(Math.max(...ys))),
+  ]
+}
+
+/** Owning cell index of every pixel (by its center), for sampling non-square cells */
+export function cellOwners(layout: GridLayout, width: number, height: number, size: number, cols: number, rows: number): Int32Array {
+  const owners = new Int32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      owners[y * width + x] = cellAt(layout, x + 0.5, y + 0.5, size, cols, rows)
+    }
+  }
+  return owners
+}
@@ -0,0 +1,51 @@
+/**
+ * GIF timeline
+ * Edits to an animation's frame sequence — trimming, deleting, duplicating, per-frame delays, a
+ * global speed and the loop direction — kept as a list of references into the decoded frames, so
+ * duplicates share one render and the source frames stay untouched.
+ */
+
+export interface TimelineFrame {
+  source: number // index into the decoded frames
+  delay: number // ms, 0 = browser default
+}
+
+/** A frame as played or exported: `index` is its position in the timeline */
+export interface SequenceFrame extends TimelineFrame {
+  index: number
+}
+
+export type LoopMode = 'forward' | 'reverse' | 'pingpong'
+
+export const LOOP_MODES: { id: LoopMode; name: string }[] = [
+  { id: 'forward', name: '正向' },
+  { id: 'reverse', name: '倒放' },
+  { id: 'pingpong', name: '往返' },
+]
+
+// Delay browsers use for frames without one
+export const DEFAULT_DELAY = 100
+
+// Browsers replace GIF delays under 20ms with the default, so speed-ups stop here
+const MIN_DELAY = 20
+
+/** One timeline entry per decoded frame, in order */
+export function initialTimeline(frames: { delay: number }[]): TimelineFrame[] {
+  return frames.map((f, source) => ({ source, delay: f.delay }))
+}
+
+/**
+ * Frames in playback order with the speed applied. Reverse plays back to front; ping-pong plays
+ * forward then back without repeating the end frames, so it loops seamlessly.
+ */
+export function playbackSequence(timeline: TimelineFrame[], speed: number, loop: LoopMode): SequenceFrame[] {
+  const frames = timeline.map((f, index): SequenceFrame => ({
+    ...f,
+    index,
+    // At normal speed the delays are kept as they are, so an unedited export matches the source
+    delay: speed === 1 ? f.delay : Math.max(MIN_DELAY, Math.round((f.delay || DEFAULT_DELAY) / speed)),
+  }))
+  if (loop === 'reverse') return frames.reverse()
+  if (loop === 'pingpong') return [...frames, ...frames.slice(1, -1).reverse()]
+  return frames
+}
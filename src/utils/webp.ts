@@ -0,0 +1,348 @@
+/**
+ * Animated WebP encoder
+ * Frames are stored lossless (VP8L) so block edges and palette colors survive exactly.
+ * The VP8L stream is deliberately simple — no transforms and no color cache, just Huffman-coded
+ * literals plus copies from the pixel to the left or above, which is where mosaic output repeats.
+ */
+
+import type { RawImage } from './mosaic'
+
+const MAX_LENGTH = 4096 // longest backward copy the length prefix codes can express
+const GREEN_ALPHABET = 256 + 24 // literal green + length prefix codes
+const DISTANCE_ALPHABET = 40
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]
+
+// Plane codes for the two copy sources we use: 1 = one row up, 2 = one pixel left
+const PLANE_UP = 1
+const PLANE_LEFT = 2
+
+/** VP8L bits are packed LSB-first */
+class BitWriter {
+  private buf = new Uint8Array(1024)
+  private pos = 0
+  private acc = 0
+  private bits = 0
+
+  write(n: number, value: number) {
+    this.acc |= value << this.bits
+    this.bits += n
+    while (this.bits >= 8) {
+      if (this.pos === this.buf.length) {
+        const grown = new Uint8Array(this.buf.length * 2)
+        grown.set(this.buf)
+        this.buf = grown
+      }
+      this.buf[this.pos++] = this.acc & 0xff
+      this.acc >>>= 8
+      this.bits -= 8
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.bits > 0) this.write(8 - this.bits, 0)
+    return this.buf.subarray(0, this.pos)
+  }
+}
+
+interface PrefixCode {
+  lengths: Uint8Array
+  codes: Uint16Array // bit-reversed, ready for LSB-first writing
+}
+
+/** Huffman code lengths capped at `limit`; counts are flattened until the tree fits */
+function codeLengths(counts: ArrayLike<number>, limit: number): Uint8Array {
+  const lengths = new Uint8Array(counts.length)
+  let weights = Array.from(counts)
+  for (;;) {
+    // Leaves and internal nodes: [weight, parent]
+    const weight: number[] = []
+    const parent: number[] = []
+    const queue: number[] = []
+    for (let s = 0; s < weights.length; s++) {
+      if (!weights[s]) continue
+      weight.push(weights[s])
+      parent.push(-1)
+      queue.push(weight.length - 1)
+    }
+    const leaves = weight.length
+    queue.sort((a, b) => weight[a] - weight[b])
+    // Two-queue Huffman: sorted leaves, internal nodes come out in increasing weight order
+    const internal: number[] = []
+    let li = 0
+    let ii = 0
+    const take = () => (ii >= internal.length || (li < leaves && weight[queue[li]] <= weight[internal[ii]])
+      ? queue[li++]
+      : internal[ii++])
+    for (let k = 1; k < leaves; k++) {
+      const a = take()
+      const b = take()
+      weight.push(weight[a] + weight[b])
+      parent.push(-1)
+      parent[a] = parent[b] = weight.length - 1
+      internal.push(weight.length - 1)
+    }
+
+    let max = 0
+    const depth = new Array<number>(leaves)
+    for (let n = 0; n < leaves; n++) {
+      let d = 0
+      for (let p = parent[n]; p !== -1; p = parent[p]) d++
+      depth[n] = d
+      max = Math.max(max, d)
+    }
+    if (max <= limit) {
+      let n = 0
+      for (let s = 0; s < weights.length; s++) if (weights[s]) lengths[s] = depth[n++]
+      return lengths
+    }
+    weights = weights.map(w => (w ? (w >> 1) | 1 : 0))
+  }
+}
+
+/** Canonical codes for the lengths, as in DEFLATE */
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+  const count = new Uint16Array(16)
+  for (const len of lengths) if (len) count[len]++
+  const next = new Uint16Array(16)
+  for (let len = 1, code = 0; len < 16; len++) {
+    code = (code + count[len - 1]) << 1
+    next[len] = code
+  }
+  const codes = new Uint16Array(lengths.length)
+  for (let s = 0; s < lengths.length; s++) {
+    const len = lengths[s]
+    if (!len) continue
+    let code = next[len]++
+    let reversed = 0
+    for (let b = 0; b < len; b++) {
+      reversed = (reversed << 1) | (code & 1)
+      code >>= 1
+    }
+    codes[s] = reversed
+  }
+  return codes
+}
+
+/** Build a code from counts; at least two symbols get lengths so the tree is complete */
+function buildCode(counts: ArrayLike<number>, limit: number): PrefixCode {
+  const padded = Array.from(counts)
+  for (let s = 0; padded.filter(Boolean).length < 2; s++) if (!padded[s]) padded[s] = 1
+  const lengths = codeLengths(padded, limit)
+  return { lengths, codes: canonicalCodes(lengths) }
+}
+
+function writeSymbol(w: BitWriter, code: PrefixCode, symbol: number) {
+  w.write(code.lengths[symbol], code.codes[symbol])
+}
+
+/** Store a prefix code in the bitstream and return it for writing symbols */
+function writePrefixCode(w: BitWriter, counts: Uint32Array): PrefixCode {
+  const used: number[] = []
+  for (let s = 0; s < counts.length && used.length < 3; s++) if (counts[s]) used.push(s)
+
+  // Simple code: one or two 8-bit symbols; a single symbol costs zero bits per use
+  if (used.length <= 2 && used.every(s => s < 256)) {
+    const symbols = used.length ? used : [0]
+    w.write(1, 1)
+    w.write(1, symbols.length - 1)
+    if (symbols[0] < 2) {
+      w.write(1, 0)
+      w.write(1, symbols[0])
+    } else {
+      w.write(1, 1)
+      w.write(8, symbols[0])
+    }
+    if (symbols.length === 2) w.write(8, symbols[1])
+    const lengths = new Uint8Array(counts.length)
+    if (symbols.length === 2) lengths[symbols[0]] = lengths[symbols[1]] = 1
+    return { lengths, codes: canonicalCodes(lengths) }
+  }
+
+  const code = buildCode(counts, 15)
+
+  // Run-length code the lengths: zero runs become 17 (3-10) or 18 (11-138)
+  const tokens: [symbol: number, extraBits: number, extra: number][] = []
+  const { lengths } = code
+  for (let i = 0; i < lengths.length;) {
+    if (lengths[i]) {
+      tokens.push([lengths[i++], 0, 0])
+      continue
+    }
+    let run = 0
+    while (i + run < lengths.length && !lengths[i + run]) run++
+    i += run
+    while (run > 0) {
+      if (run < 3) {
+        tokens.push([0, 0, 0])
+        run--
+      } else if (run <= 10) {
+        tokens.push([17, 3, run - 3])
+        run = 0
+      } else {
+        const n = Math.min(run, 138)
+        tokens.push([18, 7, n - 11])
+        run -= n
+      }
+    }
+  }
+
+  const clCounts = new Uint32Array(19)
+  for (const [s] of tokens) clCounts[s]++
+  const clCode = buildCode(clCounts, 7)
+  let num = 19
+  while (num > 4 && !clCode.lengths[CODE_LENGTH_ORDER[num - 1]]) num--
+
+  w.write(1, 0)
+  w.write(4, num - 4)
+  for (let k = 0; k < num; k++) w.write(3, clCode.lengths[CODE_LENGTH_ORDER[k]])
+  w.write(1, 0) // lengths cover the whole alphabet
+  for (const [s, extraBits, extra] of tokens) {
+    writeSymbol(w, clCode, s)
+    if (extraBits) w.write(extraBits, extra)
+  }
+  return code
+}
+
+/** LZ77 prefix coding shared by lengths and distances: [prefix, extra bit count, extra bits] */
+function prefixEncode(value: number): [number, number, number] {
+  const d = value - 1
+  if (d < 4) return [d, 0, 0]
+  const high = 31 - Math.clz32(d)
+  const second = (d >> (high - 1)) & 1
+  const extraBits = high - 1
+  return [2 * high + second, extraBits, d & ((1 << extraBits) - 1)]
+}
+
+/** One frame as a VP8L bitstream (without the chunk header) */
+function encodeVp8l({ data, width, height }: RawImage): Uint8Array {
+  const n = width * height
+  const argb = new Uint32Array(n)
+  let hasAlpha = false
+  for (let i = 0; i < n; i++) {
+    const a = data[i * 4 + 3]
+    if (a < 255) hasAlpha = true
+    argb[i] = ((a << 24) | (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]) >>> 0
+  }
+
+  // Tokenize: literal pixel (plane 0) or a copy of `length` pixels from the left/above
+  const tokens: [plane: number, value: number][] = []
+  const green = new Uint32Array(GREEN_ALPHABET)
+  const red = new Uint32Array(256)
+  const blue = new Uint32Array(256)
+  const alpha = new Uint32Array(256)
+  const distance = new Uint32Array(DISTANCE_ALPHABET)
+  for (let i = 0; i < n;) {
+    const limit = Math.min(MAX_LENGTH, n - i)
+    let left = 0
+    if (i >= 1) while (left < limit && argb[i + left] === argb[i + left - 1]) left++
+    let up = 0
+    if (i >= width) while (up < limit && argb[i + up] === argb[i + up - width]) up++
+
+    const length = Math.max(left, up)
+    if (length >= 3) {
+      const plane = up >= left ? PLANE_UP : PLANE_LEFT
+      tokens.push([plane, length])
+      green[256 + prefixEncode(length)[0]]++
+      distance[prefixEncode(plane)[0]]++
+      i += length
+    } else {
+      const p = argb[i]
+      tokens.push([0, p])
+      green[(p >>> 8) & 0xff]++
+      red[(p >>> 16) & 0xff]++
+      blue[p & 0xff]++
+      alpha[p >>> 24]++
+      i++
+    }
+  }
+
+  const w = new BitWriter()
+  w.write(8, 0x2f) // signature
+  w.write(14, width - 1)
+  w.write(14, height - 1)
+  w.write(1, hasAlpha ? 1 : 0)
+  w.write(3, 0) // version
+  w.write(1, 0) // no transforms
+  w.write(1, 0) // no color cache
+  w.write(1, 0) // one prefix code group for the whole image
+
+  const greenCode = writePrefixCode(w, green)
+  const redCode = writePrefixCode(w, red)
+  const blueCode = writePrefixCode(w, blue)
+  const alphaCode = writePrefixCode(w, alpha)
+  const distanceCode = writePrefixCode(w, distance)
+
+  for (const [plane, value] of tokens) {
+    if (plane === 0) {
+      writeSymbol(w, greenCode, (value >>> 8) & 0xff)
+      writeSymbol(w, redCode, (value >>> 16) & 0xff)
+      writeSymbol(w, blueCode, value & 0xff)
+      writeSymbol(w, alphaCode, value >>> 24)
+      continue
+    }
+    const [lengthPrefix, lengthBits, lengthExtra] = prefixEncode(value)
+    writeSymbol(w, greenCode, 256 + lengthPrefix)
+    w.write(lengthBits, lengthExtra)
+    const [distPrefix, distBits, distExtra] = prefixEncode(plane)
+    writeSymbol(w, distanceCode, distPrefix)
+    w.write(distBits, distExtra)
+  }
+  return w.finish()
+}
+
+/** RIFF chunk: FourCC, little-endian size, payload, pad byte to an even length */
+function riffChunk(type: string, payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const size = payload.reduce((sum, p) => sum + p.length, 0)
+  const out = new Uint8Array(8 + size + (size & 1))
+  for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i)
+  new DataView(out.buffer).setUint32(4, size, true)
+  let pos = 8
+  for (const p of payload) {
+    out.set(p, pos)
+    pos += p.length
+  }
+  return out
+}
+
+function uint24(view: DataView, offset: number, value: number) {
+  view.setUint16(offset, value & 0xffff, true)
+  view.setUint8(offset + 2, value >>> 16)
+}
+
+/**
+ * Encode frames as an animated lossless WebP. `loopCount` follows the GIF convention
+ * (0 = forever, null = play once, n = n extra repeats).
+ */
+export function encodeWebp(
+  frames: { imageData: RawImage; delay: number }[],
+  width: number,
+  height: number,
+  loopCount: number | null = 0
+): Blob {
+  if (width > 16384 || height > 16384) throw new Error('WebP frames are limited to 16384×16384')
+  const plays = loopCount === null ? 1 : loopCount === 0 ? 0 : Math.min(65535, loopCount + 1)
+  const hasAlpha = frames.some(f => f.imageData.data.some((v, i) => (i & 3) === 3 && v < 255))
+
+  const header = new Uint8Array(10)
+  const hv = new DataView(header.buffer)
+  hv.setUint8(0, 0x02 | (hasAlpha ? 0x10 : 0)) // animation, alpha
+  uint24(hv, 4, width - 1)
+  uint24(hv, 7, height - 1)
+
+  const anim = new Uint8Array(6)
+  new DataView(anim.buffer).setUint16(4, plays, true) // background color stays transparent black
+
+  const chunks = [riffChunk('VP8X', [header]), riffChunk('ANIM', [anim])]
+  for (const { imageData, delay } of frames) {
+    const frameHeader = new Uint8Array(16)
+    const fv = new DataView(frameHeader.buffer)
+    // Offset 0,0; full-canvas frames
+    uint24(fv, 6, width - 1)
+    uint24(fv, 9, height - 1)
+    uint24(fv, 12, Math.min(0xffffff, Math.round(delay)))
+    fv.setUint8(15, 0x02) // replace instead of alpha-blending, no disposal
+    chunks.push(riffChunk('ANMF', [frameHeader, riffChunk('VP8L', [encodeVp8l(imageData)])]))
+  }
+
+  return new Blob([riffChunk('RIFF', [new TextEncoder().encode('WEBP'), ...chunks])], { type: 'image/webp' })
+}
@@ -0,0 +1,120 @@
+/**
+ * Minimal worker pool
+ * Runs one task per worker at a time, queues the rest, and supports per-task cancellation
+ */
+
+interface Task<Req, Res> {
+  request: Req
+  transfer: Transferable[]
+  resolve: (value: Res) => void
+  reject: (reason: unknown) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+interface Slot<Req, Res> {
+  worker: Worker
+  task: Task<Req, Res> | null
+}
+
+/** Messages are wrapped with an id so replies can be matched to tasks */
+export type PoolResponse<Res> =
+  | { id: number; ok: true; result: Res }
+  | { id: number; ok: false; error: string }
+
+export function abortError(): DOMException {
+  return new DOMException('Aborted', 'AbortError')
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError'
+}
+
+export class WorkerPool<Req, Res> {
+  private slots: Slot<Req, Res>[] = []
+  private queue: Task<Req, Res>[] = []
+  private nextId = 0
+  private ids = new Map<Task<Req, Res>, number>()
+
+  constructor(
+    private readonly factory: () => Worker,
+    private readonly size: number
+  ) {}
+
+  run(request: Req, transfer: Transferable[] = [], signal?: AbortSignal): Promise<Res> {
+    if (signal?.aborted) return Promise.reject(abortError())
+
+    return new Promise<Res>((resolve, reject) => {
+      const task: Task<Req, Res> = { request, transfer, resolve, reject, signal }
+      if (signal) {
+        task.onAbort = () => this.abort(task)
+        signal.addEventListener('abort', task.onAbort, { once: true })
+      }
+      this.queue.push(task)
+      this.pump()
+    })
+  }
+
+  private pump() {
+    while (this.queue.length > 0) {
+      const slot = this.idleSlot()
+      if (!slot) return
+      const task = this.queue.shift()!
+      const id = this.nextId++
+      this.ids.set(task, id)
+      slot.task = task
+      slot.worker.postMessage({ id, request: task.request }, task.transfer)
+    }
+  }
+
+  private idleSlot(): Slot<Req, Res> | undefined {
+    const idle = this.slots.find(s => !s.task)
+    if (idle) return idle
+    if (this.slots.length >= this.size) return undefined
+    const slot = this.spawn()
+    this.slots.push(slot)
+    return slot
+  }
+
+  private spawn(): Slot<Req, Res> {
+    const slot: Slot<Req, Res> = { worker: this.factory(), task: null }
+    slot.worker.onmessage = (e: MessageEvent<PoolResponse<Res>>) => {
+      const task = slot.task
+      if (!task || this.ids.get(task) !== e.data.id) return
+      this.finish(slot, task)
+      if (e.data.ok) task.resolve(e.data.result)
+      else task.reject(new Error(e.data.error))
+    }
+    slot.worker.onerror = (e) => {
+      const task = slot.task
+      if (!task) return
+      this.finish(slot, task)
+      task.reject(new Error(e.message || 'Worker error'))
+    }
+    return slot
+  }
+
+  private finish(slot: Slot<Req, Res>, task: Task<Req, Res>) {
+    slot.task = null
+    this.ids.delete(task)
+    if (task.onAbort) task.signal?.removeEventListener('abort', task.onAbort)
+    // Defer so the caller's continuation can enqueue follow-up work first
+    queueMicrotask(() => this.pump())
+  }
+
+  private abort(task: Task<Req, Res>) {
+    const queued = this.queue.indexOf(task)
+    if (queued >= 0) {
+      this.queue.splice(queued, 1)
+    } else {
+      // A running task can only be stopped by killing its worker; replace it with a fresh one
+      const idx = this.slots.findIndex(s => s.task === task)
+      if (idx < 0) return
+      this.slots[idx].worker.terminate()
+      this.slots.splice(idx, 1)
+      this.ids.delete(task)
+      this.pump()
+    }
+    task.reject(abortError())
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * ZIP writer
+ * Bundles batch results into one download. Entries are stored uncompressed: PNGs are already
+ * deflated, so compressing them again would only cost time.
+ */
+
+import { crc32 } from './apng'
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array<ArrayBuffer>
+}
+
+// Bit 11 of the general-purpose flags: file names are UTF-8
+const UTF8_FLAG = 0x0800
+
+/** Store-only ZIP archive of the entries, in order */
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+  const encoder = new TextEncoder()
+  const time = (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1)
+  const date = ((Math.max(1980, modified.getFullYear()) - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate()
+
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const directory: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const { name, data } of entries) {
+    const nameBytes = encoder.encode(name)
+    const crc = crc32(data)
+
+    // Fields shared by the local header (from offset 4) and the central directory entry (from offset 6)
+    const common = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true) // version needed: 2.0
+      view.setUint16(at + 2, UTF8_FLAG, true)
+      view.setUint16(at + 4, 0, true) // method: stored
+      view.setUint16(at + 6, time, true)
+      view.setUint16(at + 8, date, true)
+      view.setUint32(at + 10, crc, true)
+      view.setUint32(at + 14, data.length, true) // compressed size
+      view.setUint32(at + 18, data.length, true) // uncompressed size
+      view.setUint16(at + 22, nameBytes.length, true)
+    }
+
+    const local = new Uint8Array(30 + nameBytes.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    common(localView, 4)
+    local.set(nameBytes, 30)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true) // version made by
+    common(centralView, 6)
+    centralView.setUint32(42, offset, true) // local header offset
+    central.set(nameBytes, 46)
+
+    parts.push(local, data)
+    directory.push(central)
+    offset += local.length + data.length
+  }
+
+  const directorySize = directory.reduce((sum, d) => sum + d.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true) // entries on this disk
+  endView.setUint16(10, entries.length, true) // entries in total
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true) // directory offset
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' })
+}
@@ -0,0 +1,54 @@
+/**
+ * Mosaic worker
+ * Renders frames through OffscreenCanvas and encodes animations off the main thread
+ */
+
+import { processFrame } from '../utils/mosaic'
+import { encodeAnimation } from '../utils/animation'
+import { adjustImage, NO_ADJUSTMENTS } from '../utils/adjustments'
+import { extractPalette } from '../utils/adaptive'
+import type { MosaicRequest, MosaicResult } from '../utils/jobs'
+import type { PoolResponse } from '../utils/workerPool'
+
+function reply(message: PoolResponse<MosaicResult>, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+self.onmessage = async (e: MessageEvent<{ id: number; request: MosaicRequest }>) => {
+  const { id, request } = e.data
+  try {
+    switch (request.type) {
+      case 'process': {
+        const result = processFrame(request.imageData, request.options, request.size)
+        reply({ id, ok: true, result }, [result.data.buffer])
+        break
+      }
+      case 'encode': {
+        const blob = await encodeAnimation(request.format, request.frames, request.width, request.height, request.loopCount, request.palette)
+        reply({ id, ok: true, result: blob })
+        break
+      }
+      case 'file': {
+        const bitmap = await createImageBitmap(request.file)
+        const source = new OffscreenCanvas(bitmap.width, bitmap.height)
+        const sourceCtx = source.getContext('2d')!
+        sourceCtx.drawImage(bitmap, 0, 0)
+        bitmap.close()
+        const imageData = sourceCtx.getImageData(0, 0, source.width, source.height)
+
+        const options = { ...request.options }
+        if (request.adaptive) {
+          const adjusted = adjustImage(imageData, options.adjustments ?? NO_ADJUSTMENTS)
+          options.palette = extractPalette([adjusted], request.adaptive.colors, request.adaptive.method)
+        }
+        const result = processFrame(imageData, options, request.size)
+        const output = new OffscreenCanvas(result.width, result.height)
+        output.getContext('2d')!.putImageData(result, 0, 0)
+        reply({ id, ok: true, result: await output.convertToBlob({ type: 'image/png' }) })
+        break
+      }
+    }
+  } catch (err) {
+    reply({ id, ok: false, error: err instanceof Error ? err.message : String(err) })
+  }
+}
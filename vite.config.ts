@@ -4,4 +4,6 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   base: '/mosaic-studio/',
+  // ES workers so the mosaic worker can lazy-load the GIF encoder
+  worker: { format: 'es' },
 })
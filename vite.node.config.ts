@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite'
+
+// Node build: headless library (index.js) + CLI (mosaic.js) into dist/node
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist/node',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        index: 'src/lib.ts',
+        mosaic: 'src/node/cli.ts',
+      },
+      output: {
+        format: 'es',
+        entryFileNames: '[name].js',
+        banner: chunk => (chunk.name === 'mosaic' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+})